@@ -0,0 +1,16 @@
+import { type RouteContext, columnConfigSchema, readBody, respond } from "@/lib/api"
+import { deleteColumn, updateColumn } from "@/lib/db"
+
+type Context = RouteContext<{ tableId: string; key: string }>
+
+/** Replaces the column's config; a new key renames it and moves its values. */
+export async function PATCH(request: Request, { params }: Context) {
+    const { tableId, key } = await params
+    return respond(async () => updateColumn(tableId, key, await readBody(request, columnConfigSchema)))
+}
+
+/** Removes the column and its values. */
+export async function DELETE(_request: Request, { params }: Context) {
+    const { tableId, key } = await params
+    return respond(() => deleteColumn(tableId, key))
+}
@@ -0,0 +1,24 @@
+import { type RouteContext, columnBodySchema, columnsSchema, readBody, respond } from "@/lib/api"
+import { getColumns, insertColumn, replaceColumns } from "@/lib/db"
+
+type Context = RouteContext<{ tableId: string }>
+
+export async function GET(_request: Request, { params }: Context) {
+    const { tableId } = await params
+    return respond(() => getColumns(tableId))
+}
+
+/** Adds a column at `index`, or at the end. */
+export async function POST(request: Request, { params }: Context) {
+    const { tableId } = await params
+    return respond(async () => {
+        const { column, index } = await readBody(request, columnBodySchema)
+        return insertColumn(tableId, column, index)
+    })
+}
+
+/** Replaces every column config, in order. Row values are kept as they are. */
+export async function PUT(request: Request, { params }: Context) {
+    const { tableId } = await params
+    return respond(async () => replaceColumns(tableId, await readBody(request, columnsSchema)))
+}
@@ -0,0 +1,20 @@
+import { type RouteContext, readBody, respond, tableChangesSchema } from "@/lib/api"
+import { deleteTable, getTable, updateTable } from "@/lib/db"
+
+type Context = RouteContext<{ tableId: string }>
+
+export async function GET(_request: Request, { params }: Context) {
+    const { tableId } = await params
+    return respond(() => getTable(tableId))
+}
+
+/** Renames the table or replaces its views. */
+export async function PATCH(request: Request, { params }: Context) {
+    const { tableId } = await params
+    return respond(async () => updateTable(tableId, await readBody(request, tableChangesSchema)))
+}
+
+export async function DELETE(_request: Request, { params }: Context) {
+    const { tableId } = await params
+    return respond(() => deleteTable(tableId))
+}
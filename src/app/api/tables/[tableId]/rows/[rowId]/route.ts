@@ -0,0 +1,26 @@
+import { type RouteContext, readBody, respond, rowPatchSchema } from "@/lib/api"
+import { deleteRows, getRow, updateRows } from "@/lib/db"
+
+type Context = RouteContext<{ tableId: string; rowId: string }>
+
+export async function GET(_request: Request, { params }: Context) {
+    const { tableId, rowId } = await params
+    return respond(() => getRow(tableId, rowId))
+}
+
+/** Merges the body into the row; fields set to null are removed. */
+export async function PATCH(request: Request, { params }: Context) {
+    const { tableId, rowId } = await params
+    return respond(async () => {
+        const patch = await readBody(request, rowPatchSchema)
+        return updateRows(tableId, [{ ...patch, id: rowId }])[0]
+    })
+}
+
+export async function DELETE(_request: Request, { params }: Context) {
+    const { tableId, rowId } = await params
+    return respond(() => {
+        getRow(tableId, rowId)
+        deleteRows(tableId, [rowId])
+    })
+}
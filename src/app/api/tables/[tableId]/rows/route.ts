@@ -0,0 +1,29 @@
+import { type RouteContext, readBody, respond, rowIdsSchema, rowPatchesSchema, rowsSchema } from "@/lib/api"
+import { deleteRows, getRows, insertRows, updateRows } from "@/lib/db"
+
+type Context = RouteContext<{ tableId: string }>
+
+export async function GET(_request: Request, { params }: Context) {
+    const { tableId } = await params
+    return respond(() => getRows(tableId))
+}
+
+/** Appends rows to the table. */
+export async function POST(request: Request, { params }: Context) {
+    const { tableId } = await params
+    return respond(async () => insertRows(tableId, (await readBody(request, rowsSchema)).rows))
+}
+
+/** Patches rows in bulk and, with `order`, puts every row in that order. */
+export async function PATCH(request: Request, { params }: Context) {
+    const { tableId } = await params
+    return respond(async () => {
+        const { rows, order } = await readBody(request, rowPatchesSchema)
+        return updateRows(tableId, rows, order)
+    })
+}
+
+export async function DELETE(request: Request, { params }: Context) {
+    const { tableId } = await params
+    return respond(async () => deleteRows(tableId, (await readBody(request, rowIdsSchema)).ids))
+}
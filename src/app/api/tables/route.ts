@@ -0,0 +1,11 @@
+import { readBody, respond, tableSchema } from "@/lib/api"
+import { getTables, insertTable } from "@/lib/db"
+
+export async function GET() {
+    return respond(() => getTables())
+}
+
+/** Creates a table with its columns, rows and views. */
+export async function POST(request: Request) {
+    return respond(async () => insertTable(await readBody(request, tableSchema)))
+}
@@ -0,0 +1,18 @@
+import { BenchmarkBase } from "@/components/benchmark-base"
+import { BENCHMARK_ROW_COUNT } from "@/lib/benchmark"
+
+// Open /benchmark?rows=250000 to try another size.
+export default async function BenchmarkPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ rows?: string }>
+}) {
+  const { rows } = await searchParams
+  const rowCount = Number(rows)
+
+  return (
+    <div className="container mx-auto py-10">
+      <BenchmarkBase rowCount={Number.isInteger(rowCount) && rowCount > 0 ? rowCount : BENCHMARK_ROW_COUNT} />
+    </div>
+  )
+}
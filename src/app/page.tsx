@@ -1,24 +1,27 @@
-import { type Row, initialColumns } from "@/components/columns"
-import { DataTable } from "@/components/data-table"
+import { BaseView } from "@/components/base-view"
+import { LocalBase } from "@/components/local-base"
+import { type TableData } from "@/lib/base"
+import { getTables } from "@/lib/db"
 
-async function getData(): Promise<Row[]> {
-  // Fetch data from your API here.
-  return [
-    {
-      id: "728ed52f",
-      amount: 100,
-      status: "pending",
-      email: "m@example.com",
-    },
-  ]
+// The tables are read from the database on every request rather than at build time.
+export const dynamic = "force-dynamic"
+
+// Without a database, e.g. on a read-only disk, the base is kept in the browser instead.
+const readTables = (): TableData[] | null => {
+  try {
+    return getTables()
+  } catch (error) {
+    console.error("Couldn't open the database", error)
+    return null
+  }
 }
 
 export default async function DemoPage() {
-  const data = await getData()
+  const tables = readTables()
 
   return (
     <div className="container mx-auto py-10">
-      <DataTable initialColumns={initialColumns} data={data} />
+      {tables ? <BaseView initialTables={tables} /> : <LocalBase />}
     </div>
   )
 }
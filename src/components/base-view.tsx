@@ -0,0 +1,216 @@
+"use client"
+
+import { useState, useCallback, useEffect, type SetStateAction } from "react"
+import { Check, CloudOff, Plus, Redo2, Undo2 } from "lucide-react"
+
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Button } from "@/components/ui/button"
+import { Spinner } from "@/components/ui/spinner"
+import { type Row } from "@/components/columns"
+import { DataTable } from "@/components/data-table"
+import { type ColumnConfig } from "@/lib/column-types"
+import { type TableData, createTable, getRowId } from "@/lib/base"
+import { type SavedView } from "@/lib/views"
+import { type TrashItem, restoreFromTrash } from "@/lib/trash"
+import { renameLinkedFieldReferences } from "@/lib/computed-columns"
+import { type StorageAdapter } from "@/lib/storage"
+import { createServerStorage } from "@/lib/server-storage"
+import { TablesContext } from "@/hooks/use-tables"
+import { useTableHistory } from "@/hooks/use-table-history"
+import { type SaveStatus, useAutosave } from "@/hooks/use-autosave"
+import { useExpandedRow } from "@/hooks/use-expanded-row"
+
+interface BaseViewProps {
+    /** The tables as `storage` holds them, loaded with the page, unless `restoreSaved` is set. */
+    initialTables: TableData[]
+    /** Where changes are saved; the app's API by default. */
+    storage?: StorageAdapter
+    /** Shows what `storage` holds in place of `initialTables` once it's read, for storage only the browser can reach. */
+    restoreSaved?: boolean
+}
+
+const defaultStorage = createServerStorage()
+
+const resolve = <T,>(action: SetStateAction<T>, prev: T): T =>
+    typeof action === "function" ? (action as (prev: T) => T)(prev) : action
+
+const SaveIndicator = ({ status, error }: { status: SaveStatus; error: Error | null }) => {
+    if (status === "error") {
+        return (
+            <span className="mr-2 flex items-center gap-1 text-xs text-destructive" title={error?.message}>
+                <CloudOff className="size-3.5" />
+                Not saved
+            </span>
+        )
+    }
+    return (
+        <span className="mr-2 flex items-center gap-1 text-xs text-muted-foreground" aria-live="polite">
+            {status === "saved" ? <Check className="size-3.5" /> : <Spinner className="size-3.5" />}
+            {status === "loading" ? "Loading…" : status === "saving" ? "Saving…" : "Saved"}
+        </span>
+    )
+}
+
+export const BaseView = ({ initialTables, storage = defaultStorage, restoreSaved = false }: BaseViewProps) => {
+    const { tables, updateTable, replaceTables, resetTables, undo, redo, canUndo, canRedo } =
+        useTableHistory(initialTables)
+    const [expandedRowId] = useExpandedRow()
+    // A shared link to a row opens on the table that row belongs to.
+    const [activeTableId, setActiveTableId] = useState(
+        () =>
+            initialTables.find((t) => t.rows.some((row) => getRowId(row) === expandedRowId))?.id ??
+            initialTables[0]?.id ??
+            ""
+    )
+
+    const handleRestore = useCallback(
+        (restored: TableData[]) => {
+            resetTables(restored)
+            setActiveTableId((id) => (restored.some((t) => t.id === id) ? id : restored[0]?.id ?? ""))
+        },
+        [resetTables]
+    )
+    const { status, error } = useAutosave(tables, storage, handleRestore, restoreSaved)
+
+    const activeTable = tables.find((t) => t.id === activeTableId) ?? tables[0]
+    // Depend on the id, not the table object, so the setters stay stable across edits.
+    const activeId = activeTable?.id
+
+    const handleColumnConfigsChange = useCallback(
+        (action: SetStateAction<ColumnConfig[]>) => {
+            if (!activeId) return
+            updateTable(activeId, (t) => ({ ...t, columns: resolve(action, t.columns) }))
+        },
+        [activeId, updateTable]
+    )
+
+    const handleRowsChange = useCallback(
+        (action: SetStateAction<Row[]>) => {
+            if (!activeId) return
+            updateTable(activeId, (t) => ({ ...t, rows: resolve(action, t.rows) }))
+        },
+        [activeId, updateTable]
+    )
+
+    const handleViewsChange = useCallback(
+        (action: SetStateAction<SavedView[]>) => {
+            if (!activeId) return
+            updateTable(activeId, (t) => ({ ...t, views: resolve(action, t.views) }))
+        },
+        [activeId, updateTable]
+    )
+
+    const handleTrashChange = useCallback(
+        (action: SetStateAction<TrashItem[]>) => {
+            if (!activeId) return
+            updateTable(activeId, (t) => ({ ...t, trash: resolve(action, t.trash) }))
+        },
+        [activeId, updateTable]
+    )
+
+    // Takes the table by id rather than the active one, so an undo toast still restores into
+    // the table it came from after switching tabs.
+    const handleRestoreTrash = useCallback(
+        (tableId: string, itemId: string) => updateTable(tableId, (t) => restoreFromTrash(t, itemId)),
+        [updateTable]
+    )
+
+    // Lookups in other tables read fields of this one by name, so they follow a rename.
+    const handleColumnRename = useCallback(
+        (oldKey: string, newKey: string) => {
+            if (!activeId) return
+            // Each table is rewritten from its latest state; ones with nothing to follow come back as they were.
+            for (const { id } of tables) {
+                if (id === activeId) continue
+                updateTable(id, (t) => {
+                    const columns = renameLinkedFieldReferences(t.columns, activeId, oldKey, newKey)
+                    return columns === t.columns ? t : { ...t, columns }
+                })
+            }
+        },
+        [activeId, tables, updateTable]
+    )
+
+    const handleAddTable = useCallback(() => {
+        const table = createTable(tables)
+        replaceTables((prev) => [...prev, table])
+        setActiveTableId(table.id)
+    }, [tables, replaceTables])
+
+    // Undo can reach back into another table, so show the table it changed.
+    const handleUndo = useCallback(() => {
+        const id = undo()
+        if (id) setActiveTableId(id)
+    }, [undo])
+
+    const handleRedo = useCallback(() => {
+        const id = redo()
+        if (id) setActiveTableId(id)
+    }, [redo])
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey) || e.altKey) return
+            const key = e.key.toLowerCase()
+            if (key !== "z" && key !== "y") return
+            // Text fields outside the grid, like a column name in a dialog, keep their own undo.
+            const target = e.target as HTMLElement
+            const isTextField = target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement
+            if (isTextField && !target.closest("[data-column-id]")) return
+            e.preventDefault()
+            if (key === "y" || e.shiftKey) handleRedo()
+            else handleUndo()
+        }
+        window.addEventListener("keydown", handleKeyDown)
+        return () => window.removeEventListener("keydown", handleKeyDown)
+    }, [handleUndo, handleRedo])
+
+    return (
+        <TablesContext.Provider value={tables}>
+            <div className="flex flex-col gap-4">
+                <div className="flex items-center gap-2">
+                    <Tabs value={activeTable?.id ?? ""} onValueChange={setActiveTableId}>
+                        <TabsList>
+                            {tables.map((t) => (
+                                <TabsTrigger key={t.id} value={t.id}>
+                                    {t.name}
+                                </TabsTrigger>
+                            ))}
+                        </TabsList>
+                    </Tabs>
+                    <Button variant="ghost" size="icon-xs" onClick={handleAddTable}>
+                        <Plus />
+                        <span className="sr-only">Add table</span>
+                    </Button>
+                    <div className="ml-auto flex items-center gap-1">
+                        <SaveIndicator status={status} error={error} />
+                        <Button variant="ghost" size="icon-xs" disabled={!canUndo} onClick={handleUndo} title="Undo (Ctrl+Z)">
+                            <Undo2 />
+                            <span className="sr-only">Undo</span>
+                        </Button>
+                        <Button variant="ghost" size="icon-xs" disabled={!canRedo} onClick={handleRedo} title="Redo (Ctrl+Shift+Z)">
+                            <Redo2 />
+                            <span className="sr-only">Redo</span>
+                        </Button>
+                    </div>
+                </div>
+                {activeTable && (
+                    <DataTable
+                        key={activeTable.id}
+                        tableId={activeTable.id}
+                        columnConfigs={activeTable.columns}
+                        rows={activeTable.rows}
+                        views={activeTable.views}
+                        onColumnConfigsChange={handleColumnConfigsChange}
+                        onRowsChange={handleRowsChange}
+                        onViewsChange={handleViewsChange}
+                        trash={activeTable.trash}
+                        onTrashChange={handleTrashChange}
+                        onRestoreTrash={handleRestoreTrash}
+                        onColumnRename={handleColumnRename}
+                    />
+                )}
+            </div>
+        </TablesContext.Provider>
+    )
+}
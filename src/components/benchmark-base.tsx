@@ -0,0 +1,18 @@
+"use client"
+
+import { useMemo } from "react"
+import dynamic from "next/dynamic"
+
+import { createBenchmarkTable } from "@/lib/benchmark"
+import { createMemoryStorage } from "@/lib/storage"
+
+// The rows are generated in the browser rather than sent with the page.
+const BaseView = dynamic(() => import("@/components/base-view").then((m) => m.BaseView), { ssr: false })
+
+/** A base holding only the benchmark table, saved in memory so it never reaches the database. */
+export const BenchmarkBase = ({ rowCount }: { rowCount: number }) => {
+    const tables = useMemo(() => [createBenchmarkTable(rowCount)], [rowCount])
+    const storage = useMemo(() => createMemoryStorage(), [])
+
+    return <BaseView initialTables={tables} storage={storage} />
+}
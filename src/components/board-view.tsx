@@ -0,0 +1,191 @@
+"use client"
+
+import { useState, useMemo } from "react"
+
+import { Badge } from "@/components/ui/badge"
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select"
+import { type Row } from "@/components/columns"
+import { type ColumnConfig, formatCellValue, OPTION_COLORS } from "@/lib/column-types"
+import { getRowId } from "@/lib/base"
+import { type BoardSettings, applyManualOrder, moveInOrder } from "@/lib/views"
+import { cn } from "@/lib/utils"
+
+interface BoardViewProps {
+    columnConfigs: ColumnConfig[]
+    rows: Row[]
+    settings: BoardSettings
+    onSettingsChange: (settings: BoardSettings) => void
+    onCellChange: (rowId: string, key: string, value: unknown) => void
+}
+
+interface Lane {
+    label: string | null
+    color: string
+    cards: Row[]
+}
+
+const UNCATEGORIZED = "Uncategorized"
+
+const MAX_CARD_FIELDS = 3
+
+export const BoardView = ({ columnConfigs, rows, settings, onSettingsChange, onCellChange }: BoardViewProps) => {
+    const [draggingId, setDraggingId] = useState<string | null>(null)
+    const [dropTarget, setDropTarget] = useState<{ lane: string | null; beforeId: string | null } | null>(null)
+
+    const selectColumns = columnConfigs.filter((c) => c.type === "select")
+    const groupConfig = selectColumns.find((c) => c.key === settings.groupKey) ?? selectColumns[0]
+    const [titleConfig, ...otherConfigs] = columnConfigs.filter((c) => c.key !== groupConfig?.key)
+    const cardFields = otherConfigs.slice(0, MAX_CARD_FIELDS)
+
+    const orderedCards = useMemo(
+        () => applyManualOrder(rows, settings.order, getRowId),
+        [rows, settings.order]
+    )
+
+    const lanes = useMemo<Lane[]>(() => {
+        if (!groupConfig) return []
+        const options = groupConfig.options ?? []
+        const byLabel = new Map<string | null, Lane>([
+            [null, { label: null, color: OPTION_COLORS[0].value, cards: [] }],
+            ...options.map((o): [string, Lane] => [o.label, { label: o.label, color: o.color, cards: [] }]),
+        ])
+        for (const card of orderedCards) {
+            const value = card[groupConfig.key]
+            const lane = byLabel.get(typeof value === "string" && byLabel.has(value) ? value : null)!
+            lane.cards.push(card)
+        }
+        // Uncategorized is created first so option lanes keep their order, but shown last.
+        return [...byLabel.values()].slice(1).concat(byLabel.get(null)!)
+    }, [groupConfig, orderedCards])
+
+    if (!groupConfig) {
+        return (
+            <div className="rounded-sm border p-6 text-sm text-muted-foreground">
+                Add a select column to group rows into a board.
+            </div>
+        )
+    }
+
+    const handleDrop = (lane: Lane, beforeId: string | null) => {
+        const id = draggingId
+        setDraggingId(null)
+        setDropTarget(null)
+        if (!id) return
+
+        const fromLane = lanes.find((l) => l.cards.some((c) => getRowId(c) === id))
+        if (!fromLane) return
+        if (fromLane !== lane) {
+            onCellChange(id, groupConfig.key, lane.label ?? "")
+        }
+
+        const ids = orderedCards.map(getRowId).filter((i) => i !== id)
+        let anchor = beforeId === id ? null : beforeId
+        if (anchor === null) {
+            // Dropping on a lane's empty space puts the card right after that lane's last card.
+            const laneIds = lane.cards.map(getRowId).filter((i) => i !== id)
+            const last = laneIds[laneIds.length - 1]
+            anchor = last ? ids[ids.indexOf(last) + 1] ?? null : null
+        }
+        onSettingsChange({ ...settings, groupKey: groupConfig.key, order: moveInOrder(ids, id, anchor) })
+    }
+
+    return (
+        <div className="flex flex-col gap-3">
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                Group by
+                <Select
+                    value={groupConfig.key}
+                    onValueChange={(groupKey) => onSettingsChange({ ...settings, groupKey })}
+                >
+                    <SelectTrigger size="sm" className="w-40">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {selectColumns.map((c) => (
+                            <SelectItem key={c.key} value={c.key}>
+                                {c.key}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            </div>
+            <div className="flex items-start gap-3 overflow-x-auto pb-2">
+                {lanes.map((lane) => (
+                    <div
+                        key={lane.label ?? UNCATEGORIZED}
+                        className={cn(
+                            "flex w-64 shrink-0 flex-col gap-2 rounded-md bg-muted/50 p-2",
+                            dropTarget?.lane === lane.label && "ring-2 ring-ring/50"
+                        )}
+                        onDragOver={(e) => {
+                            if (!draggingId) return
+                            e.preventDefault()
+                            if (e.target === e.currentTarget) setDropTarget({ lane: lane.label, beforeId: null })
+                        }}
+                        onDrop={(e) => {
+                            e.preventDefault()
+                            handleDrop(lane, dropTarget?.lane === lane.label ? dropTarget.beforeId : null)
+                        }}
+                    >
+                        <div className="flex items-center justify-between px-1">
+                            {lane.label ? (
+                                <Badge className="text-white border-0" style={{ backgroundColor: lane.color }}>
+                                    {lane.label}
+                                </Badge>
+                            ) : (
+                                <span className="text-sm font-medium text-muted-foreground">{UNCATEGORIZED}</span>
+                            )}
+                            <span className="text-xs text-muted-foreground">{lane.cards.length}</span>
+                        </div>
+                        {lane.cards.map((row) => {
+                            const id = getRowId(row)
+                            const title = titleConfig ? formatCellValue(row[titleConfig.key], titleConfig.type) : ""
+                            return (
+                                <div
+                                    key={id}
+                                    draggable
+                                    onDragStart={(e) => {
+                                        e.dataTransfer.effectAllowed = "move"
+                                        e.dataTransfer.setData("text/plain", id)
+                                        setDraggingId(id)
+                                    }}
+                                    onDragEnd={() => {
+                                        setDraggingId(null)
+                                        setDropTarget(null)
+                                    }}
+                                    onDragOver={(e) => {
+                                        if (!draggingId) return
+                                        e.preventDefault()
+                                        setDropTarget({ lane: lane.label, beforeId: id })
+                                    }}
+                                    className={cn(
+                                        "flex cursor-grab flex-col gap-1 rounded-md border bg-card p-2 text-sm shadow-xs",
+                                        draggingId === id && "opacity-50",
+                                        dropTarget?.beforeId === id && draggingId !== id && "border-t-2 border-t-primary"
+                                    )}
+                                >
+                                    <span className="truncate font-medium">{title || "Untitled"}</span>
+                                    {cardFields.map((config) => {
+                                        const text = formatCellValue(row[config.key], config.type)
+                                        if (!text) return null
+                                        return (
+                                            <span key={config.key} className="truncate text-xs text-muted-foreground">
+                                                {config.key}: {text}
+                                            </span>
+                                        )
+                                    })}
+                                </div>
+                            )
+                        })}
+                    </div>
+                ))}
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,282 @@
+"use client"
+
+import { useState, useMemo } from "react"
+import {
+    addMonths,
+    addWeeks,
+    eachDayOfInterval,
+    endOfMonth,
+    endOfWeek,
+    format,
+    isSameMonth,
+    isToday,
+    startOfMonth,
+    startOfWeek,
+} from "date-fns"
+import { ChevronLeft, ChevronRight, Plus } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { type Row } from "@/components/columns"
+import { type ColumnConfig, formatCellValue, parseDateValue } from "@/lib/column-types"
+import { getRowId } from "@/lib/base"
+import { type CalendarMode, type CalendarSettings } from "@/lib/views"
+import { cn } from "@/lib/utils"
+
+interface CalendarViewProps {
+    columnConfigs: ColumnConfig[]
+    rows: Row[]
+    settings: CalendarSettings
+    onSettingsChange: (settings: CalendarSettings) => void
+    onCellChange: (rowId: string, key: string, value: unknown) => void
+    onAddRow: (values: Row) => void
+}
+
+const UNDATED = "undated"
+
+const dayKey = (date: Date) => format(date, "yyyy-MM-dd")
+
+/** Moves a stored date onto `day`, keeping its time of day so the ISO string only changes by whole days. */
+const moveToDay = (value: unknown, day: Date): string => {
+    const next = parseDateValue(value) ?? new Date(day)
+    next.setFullYear(day.getFullYear(), day.getMonth(), day.getDate())
+    return next.toISOString()
+}
+
+export const CalendarView = ({
+    columnConfigs,
+    rows,
+    settings,
+    onSettingsChange,
+    onCellChange,
+    onAddRow,
+}: CalendarViewProps) => {
+    const [cursor, setCursor] = useState(() => new Date())
+    const [draggingId, setDraggingId] = useState<string | null>(null)
+    const [dropTarget, setDropTarget] = useState<string | null>(null)
+
+    const dateColumns = columnConfigs.filter((c) => c.type === "date")
+    const dateConfig = dateColumns.find((c) => c.key === settings.dateKey) ?? dateColumns[0]
+    const titleConfig = columnConfigs.find((c) => c.key !== dateConfig?.key)
+
+    const days = useMemo(() => {
+        const start = settings.mode === "week" ? cursor : startOfMonth(cursor)
+        const end = settings.mode === "week" ? cursor : endOfMonth(cursor)
+        return eachDayOfInterval({ start: startOfWeek(start), end: endOfWeek(end) })
+    }, [cursor, settings.mode])
+
+    const entriesByDay = useMemo(() => {
+        const byDay = new Map<string, Row[]>()
+        if (!dateConfig) return byDay
+        for (const row of rows) {
+            const date = parseDateValue(row[dateConfig.key])
+            const key = date ? dayKey(date) : UNDATED
+            byDay.set(key, [...(byDay.get(key) ?? []), row])
+        }
+        return byDay
+    }, [rows, dateConfig])
+
+    if (!dateConfig) {
+        return (
+            <div className="rounded-sm border p-6 text-sm text-muted-foreground">
+                Add a date column to place rows on a calendar.
+            </div>
+        )
+    }
+
+    const handleDrop = (day: Date | null) => {
+        const id = draggingId
+        setDraggingId(null)
+        setDropTarget(null)
+        if (!id) return
+        const row = rows.find((r) => getRowId(r) === id)
+        if (!row) return
+        const value = row[dateConfig.key]
+        const next = day ? moveToDay(value, day) : ""
+        if (next !== (value ?? "")) onCellChange(id, dateConfig.key, next)
+    }
+
+    const step = (amount: number) => {
+        setCursor((prev) => (settings.mode === "week" ? addWeeks(prev, amount) : addMonths(prev, amount)))
+    }
+
+    const caption = settings.mode === "week"
+        ? `${format(days[0], "MMM d")} – ${format(days[days.length - 1], "MMM d, yyyy")}`
+        : format(cursor, "MMMM yyyy")
+
+    const renderEntry = (row: Row) => {
+        const id = getRowId(row)
+        const title = titleConfig ? formatCellValue(row[titleConfig.key], titleConfig.type) : ""
+        return (
+            <div
+                key={id}
+                draggable
+                onClick={(e) => e.stopPropagation()}
+                onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = "move"
+                    e.dataTransfer.setData("text/plain", id)
+                    setDraggingId(id)
+                }}
+                onDragEnd={() => {
+                    setDraggingId(null)
+                    setDropTarget(null)
+                }}
+                className={cn(
+                    "cursor-grab truncate rounded-sm border bg-card px-1.5 py-0.5 text-xs shadow-xs",
+                    draggingId === id && "opacity-50"
+                )}
+            >
+                {title || "Untitled"}
+            </div>
+        )
+    }
+
+    const dropHandlers = (key: string, day: Date | null) => ({
+        onDragOver: (e: React.DragEvent) => {
+            if (!draggingId) return
+            e.preventDefault()
+            setDropTarget(key)
+        },
+        onDragLeave: (e: React.DragEvent) => {
+            if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDropTarget(null)
+        },
+        onDrop: (e: React.DragEvent) => {
+            e.preventDefault()
+            handleDrop(day)
+        },
+    })
+
+    const undated = entriesByDay.get(UNDATED) ?? []
+
+    return (
+        <div className="flex flex-col gap-3">
+            <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                <Button variant="outline" size="icon-sm" onClick={() => step(-1)}>
+                    <ChevronLeft />
+                    <span className="sr-only">Previous {settings.mode}</span>
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setCursor(new Date())}>
+                    Today
+                </Button>
+                <Button variant="outline" size="icon-sm" onClick={() => step(1)}>
+                    <ChevronRight />
+                    <span className="sr-only">Next {settings.mode}</span>
+                </Button>
+                <span className="min-w-40 select-none text-sm font-medium text-foreground">{caption}</span>
+                <div className="ml-auto flex items-center gap-2">
+                    Date
+                    <Select
+                        value={dateConfig.key}
+                        onValueChange={(dateKey) => onSettingsChange({ ...settings, dateKey })}
+                    >
+                        <SelectTrigger size="sm" className="w-40">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {dateColumns.map((c) => (
+                                <SelectItem key={c.key} value={c.key}>
+                                    {c.key}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    <ToggleGroup
+                        type="single"
+                        variant="outline"
+                        size="sm"
+                        value={settings.mode}
+                        onValueChange={(v) => {
+                            if (v) onSettingsChange({ ...settings, mode: v as CalendarMode })
+                        }}
+                    >
+                        <ToggleGroupItem value="month">Month</ToggleGroupItem>
+                        <ToggleGroupItem value="week">Week</ToggleGroupItem>
+                    </ToggleGroup>
+                </div>
+            </div>
+            <div className="flex items-start gap-3">
+                <div className="flex-1 overflow-hidden rounded-sm border">
+                    <div className="flex border-b py-1">
+                        {days.slice(0, 7).map((day) => (
+                            <div
+                                key={day.getDay()}
+                                className="text-muted-foreground flex-1 text-center font-normal text-[0.8rem] select-none"
+                            >
+                                {format(day, "EEE")}
+                            </div>
+                        ))}
+                    </div>
+                    <div className="grid grid-cols-7">
+                        {days.map((day) => {
+                            const key = dayKey(day)
+                            const entries = entriesByDay.get(key) ?? []
+                            const outside = settings.mode === "month" && !isSameMonth(day, cursor)
+                            const addRow = () => onAddRow({ [dateConfig.key]: day.toISOString() })
+                            const empty = entries.length === 0
+                            // Only an empty day adds a row on click; busy days have a button, so a click
+                            // between their entries doesn't create a blank row.
+                            return (
+                                <div
+                                    key={key}
+                                    {...dropHandlers(key, day)}
+                                    onClick={empty ? addRow : undefined}
+                                    className={cn(
+                                        "group/day flex flex-col gap-1 border-r border-b p-1 transition-colors [&:nth-child(7n)]:border-r-0",
+                                        empty && "cursor-pointer hover:bg-muted/50",
+                                        settings.mode === "week" ? "min-h-64" : "min-h-24",
+                                        outside && "bg-muted/30",
+                                        dropTarget === key && "ring-2 ring-inset ring-ring/50"
+                                    )}
+                                >
+                                    <div className="flex items-center justify-between">
+                                        {!empty && (
+                                            <Button
+                                                variant="ghost"
+                                                size="icon-xs"
+                                                className="opacity-0 group-hover/day:opacity-100 focus-visible:opacity-100"
+                                                onClick={addRow}
+                                            >
+                                                <Plus />
+                                                <span className="sr-only">Add row on {format(day, "PPP")}</span>
+                                            </Button>
+                                        )}
+                                        <span
+                                            className={cn(
+                                                "ml-auto flex size-6 items-center justify-center text-[0.8rem] select-none",
+                                                isToday(day) && "bg-accent text-accent-foreground rounded-md",
+                                                outside && "text-muted-foreground"
+                                            )}
+                                        >
+                                            {format(day, "d")}
+                                        </span>
+                                    </div>
+                                    {entries.map(renderEntry)}
+                                </div>
+                            )
+                        })}
+                    </div>
+                </div>
+                <div
+                    {...dropHandlers(UNDATED, null)}
+                    className={cn(
+                        "flex w-56 shrink-0 flex-col gap-2 rounded-md bg-muted/50 p-2",
+                        dropTarget === UNDATED && "ring-2 ring-ring/50"
+                    )}
+                >
+                    <div className="flex items-center justify-between px-1">
+                        <span className="text-sm font-medium text-muted-foreground">No date</span>
+                        <span className="text-xs text-muted-foreground">{undated.length}</span>
+                    </div>
+                    {undated.map(renderEntry)}
+                </div>
+            </div>
+        </div>
+    )
+}
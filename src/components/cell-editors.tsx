@@ -1,6 +1,7 @@
 "use client"
 
 import { useState, useCallback } from "react"
+import { Check, Plus, X } from "lucide-react"
 import { Input } from "@/components/ui/input"
 import { Textarea } from "@/components/ui/textarea"
 import { Checkbox } from "@/components/ui/checkbox"
@@ -17,31 +18,67 @@ import {
     PopoverTrigger,
 } from "@/components/ui/popover"
 import { Calendar } from "@/components/ui/calendar"
-import { formatCellValue, type SelectOption } from "@/lib/column-types"
+import {
+    Command,
+    CommandEmpty,
+    CommandGroup,
+    CommandInput,
+    CommandItem,
+    CommandList,
+} from "@/components/ui/command"
+import {
+    Combobox,
+    ComboboxChip,
+    ComboboxChips,
+    ComboboxChipsInput,
+    ComboboxContent,
+    ComboboxEmpty,
+    ComboboxItem,
+    ComboboxList,
+    ComboboxValue,
+    useComboboxAnchor,
+} from "@/components/ui/combobox"
+import {
+    formatCellValue,
+    toOptionLabels,
+    type ColumnConfig,
+    type ColumnType,
+    type SelectOption,
+    OPTION_COLORS,
+} from "@/lib/column-types"
+import { isFormulaError } from "@/lib/formula"
+import { findTable, getRowId, getRowTitle, toLinkIds } from "@/lib/base"
+import { useTables } from "@/hooks/use-tables"
 import { Badge } from "@/components/ui/badge"
 
+/** Editors sit borderless in a grid cell, or show as full-size form controls in a "field". */
+export type EditorVariant = "cell" | "field"
+
 const cellInputClassName =
     "h-auto border-0 shadow-none rounded-none bg-transparent px-0 py-0 focus-visible:ring-0 focus-visible:border-0 text-sm"
 
+const inputClassName = (variant: EditorVariant) => (variant === "cell" ? cellInputClassName : "")
+
 interface CellEditorProps {
     value: unknown
     onChange: (value: unknown) => void
+    variant?: EditorVariant
 }
 
-export const TextCellEditor = ({ value, onChange }: CellEditorProps) => (
+export const TextCellEditor = ({ value, onChange, variant = "cell" }: CellEditorProps) => (
     <Input
-        className={cellInputClassName}
+        className={inputClassName(variant)}
         value={value != null ? String(value) : ""}
         onChange={(e) => onChange(e.target.value)}
     />
 )
 
-export const LongTextCellEditor = ({ value, onChange }: CellEditorProps) => (
+export const LongTextCellEditor = ({ value, onChange, variant = "cell" }: CellEditorProps) => (
     <Textarea
-        className={`${cellInputClassName} min-h-0 resize-none field-sizing-content`}
+        className={variant === "cell" ? `${cellInputClassName} min-h-0 resize-none field-sizing-content` : "min-h-32"}
         value={value != null ? String(value) : ""}
         onChange={(e) => onChange(e.target.value)}
-        rows={1}
+        rows={variant === "cell" ? 1 : 6}
     />
 )
 
@@ -56,7 +93,7 @@ interface SelectCellEditorProps extends CellEditorProps {
     options: SelectOption[]
 }
 
-export const SelectCellEditor = ({ value, onChange, options }: SelectCellEditorProps) => {
+export const SelectCellEditor = ({ value, onChange, options, variant = "cell" }: SelectCellEditorProps) => {
     const stringValue = value != null && value !== "" ? String(value) : undefined
     const selectedOption = options.find((o) => o.label === stringValue)
 
@@ -69,7 +106,7 @@ export const SelectCellEditor = ({ value, onChange, options }: SelectCellEditorP
             value={stringValue}
             onValueChange={(v) => onChange(v)}
         >
-            <SelectTrigger className={`${cellInputClassName} w-full [&>span]:flex [&>span]:items-center`}>
+            <SelectTrigger className={`${inputClassName(variant)} w-full [&>span]:flex [&>span]:items-center`}>
                 {selectedOption ? (
                     <Badge
                         className="text-white border-0"
@@ -98,7 +135,94 @@ export const SelectCellEditor = ({ value, onChange, options }: SelectCellEditorP
     )
 }
 
-export const DateCellEditor = ({ value, onChange }: CellEditorProps) => {
+interface MultiSelectCellEditorProps extends SelectCellEditorProps {
+    onCreateOption: (label: string) => void
+}
+
+export const MultiSelectCellEditor = ({
+    value,
+    onChange,
+    options,
+    onCreateOption,
+    variant = "cell",
+}: MultiSelectCellEditorProps) => {
+    const [query, setQuery] = useState("")
+    const anchor = useComboboxAnchor()
+    const selected = toOptionLabels(value)
+    const labels = options.map((o) => o.label)
+    const draft = query.trim()
+    // The typed text is offered as an extra item when it doesn't name an existing option.
+    const items = draft && !labels.includes(draft) ? [...labels, draft] : labels
+
+    const colorOf = (label: string) =>
+        options.find((o) => o.label === label)?.color ?? OPTION_COLORS[0].value
+
+    return (
+        <Combobox
+            multiple
+            items={items}
+            value={selected}
+            inputValue={query}
+            onInputValueChange={setQuery}
+            onValueChange={(next: string[]) => {
+                for (const label of next) {
+                    if (!labels.includes(label)) onCreateOption(label)
+                }
+                onChange(next)
+                setQuery("")
+            }}
+        >
+            <ComboboxChips
+                ref={anchor}
+                className={
+                    variant === "cell"
+                        ? "min-h-0 flex-nowrap overflow-hidden border-0 bg-transparent p-0 shadow-none focus-within:ring-0 has-data-[slot=combobox-chip]:px-0 dark:bg-transparent"
+                        : undefined
+                }
+            >
+                <ComboboxValue>
+                    {(values: string[]) =>
+                        values.map((label) => (
+                            <ComboboxChip
+                                key={label}
+                                className="rounded-full text-white"
+                                style={{ backgroundColor: colorOf(label) }}
+                            >
+                                {label}
+                            </ComboboxChip>
+                        ))
+                    }
+                </ComboboxValue>
+                <ComboboxChipsInput
+                    className="min-w-8 bg-transparent"
+                    placeholder={selected.length === 0 ? "Select..." : undefined}
+                />
+            </ComboboxChips>
+            <ComboboxContent anchor={anchor}>
+                <ComboboxEmpty>Type to create an option</ComboboxEmpty>
+                <ComboboxList>
+                    {(label: string) => (
+                        <ComboboxItem key={label} value={label}>
+                            {labels.includes(label) ? (
+                                <div className="flex items-center gap-2">
+                                    <span
+                                        className="size-2.5 rounded-full shrink-0"
+                                        style={{ backgroundColor: colorOf(label) }}
+                                    />
+                                    {label}
+                                </div>
+                            ) : (
+                                <span>Create &ldquo;{label}&rdquo;</span>
+                            )}
+                        </ComboboxItem>
+                    )}
+                </ComboboxList>
+            </ComboboxContent>
+        </Combobox>
+    )
+}
+
+export const DateCellEditor = ({ value, onChange, variant = "cell" }: CellEditorProps) => {
     const [open, setOpen] = useState(false)
     const dateValue = value ? new Date(String(value)) : undefined
     const isValid = dateValue && !isNaN(dateValue.getTime())
@@ -108,7 +232,11 @@ export const DateCellEditor = ({ value, onChange }: CellEditorProps) => {
             <PopoverTrigger asChild>
                 <button
                     type="button"
-                    className="w-full text-left text-sm outline-none"
+                    className={
+                        variant === "cell"
+                            ? "w-full text-left text-sm outline-none"
+                            : "flex h-9 w-full items-center rounded-md border border-input px-3 text-left text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-[3px] focus-visible:ring-ring/50"
+                    }
                 >
                     {isValid
                         ? formatCellValue(value, "date")
@@ -129,7 +257,7 @@ export const DateCellEditor = ({ value, onChange }: CellEditorProps) => {
     )
 }
 
-export const NumberCellEditor = ({ value, onChange }: CellEditorProps) => {
+export const NumberCellEditor = ({ value, onChange, variant = "cell" }: CellEditorProps) => {
     const [focused, setFocused] = useState(false)
     const raw = value != null ? String(value) : ""
 
@@ -152,7 +280,7 @@ export const NumberCellEditor = ({ value, onChange }: CellEditorProps) => {
 
     return (
         <Input
-            className={cellInputClassName}
+            className={inputClassName(variant)}
             inputMode="decimal"
             value={focused ? raw : formatNumber(raw)}
             onChange={(e) => handleChange(e.target.value)}
@@ -162,7 +290,7 @@ export const NumberCellEditor = ({ value, onChange }: CellEditorProps) => {
     )
 }
 
-export const PhoneCellEditor = ({ value, onChange }: CellEditorProps) => {
+export const PhoneCellEditor = ({ value, onChange, variant = "cell" }: CellEditorProps) => {
     const formatPhone = (raw: string): string => {
         const digits = raw.replace(/\D/g, "").slice(0, 10)
         if (digits.length <= 3) return digits
@@ -179,7 +307,7 @@ export const PhoneCellEditor = ({ value, onChange }: CellEditorProps) => {
 
     return (
         <Input
-            className={cellInputClassName}
+            className={inputClassName(variant)}
             type="tel"
             value={formatPhone(digits)}
             onChange={(e) => handleChange(e.target.value)}
@@ -187,16 +315,25 @@ export const PhoneCellEditor = ({ value, onChange }: CellEditorProps) => {
     )
 }
 
-export const EmailCellEditor = ({ value, onChange }: CellEditorProps) => (
+export const EmailCellEditor = ({ value, onChange, variant = "cell" }: CellEditorProps) => (
     <Input
-        className={cellInputClassName}
+        className={inputClassName(variant)}
         type="email"
         value={value != null ? String(value) : ""}
         onChange={(e) => onChange(e.target.value)}
     />
 )
 
-export const CurrencyCellEditor = ({ value, onChange }: CellEditorProps) => {
+export const UrlCellEditor = ({ value, onChange, variant = "cell" }: CellEditorProps) => (
+    <Input
+        className={inputClassName(variant)}
+        type="url"
+        value={value != null ? String(value) : ""}
+        onChange={(e) => onChange(e.target.value)}
+    />
+)
+
+export const CurrencyCellEditor = ({ value, onChange, variant = "cell" }: CellEditorProps) => {
     const [focused, setFocused] = useState(false)
     const raw = value != null ? String(value) : ""
 
@@ -221,7 +358,7 @@ export const CurrencyCellEditor = ({ value, onChange }: CellEditorProps) => {
         <div className="flex items-center gap-0.5">
             <span className="text-sm text-muted-foreground">$</span>
             <Input
-                className={cellInputClassName}
+                className={inputClassName(variant)}
                 inputMode="decimal"
                 value={focused ? raw : formatNumber(raw)}
                 onChange={(e) => handleChange(e.target.value)}
@@ -232,10 +369,10 @@ export const CurrencyCellEditor = ({ value, onChange }: CellEditorProps) => {
     )
 }
 
-export const PercentCellEditor = ({ value, onChange }: CellEditorProps) => (
+export const PercentCellEditor = ({ value, onChange, variant = "cell" }: CellEditorProps) => (
     <div className="flex items-center gap-0.5">
         <Input
-            className={cellInputClassName}
+            className={inputClassName(variant)}
             type="number"
             value={value != null ? String(value) : ""}
             onChange={(e) => onChange(e.target.value)}
@@ -243,3 +380,206 @@ export const PercentCellEditor = ({ value, onChange }: CellEditorProps) => (
         <span className="text-sm text-muted-foreground">%</span>
     </div>
 )
+
+interface ComputedCellProps {
+    value: unknown
+    type: ColumnType
+    variant?: EditorVariant
+}
+
+export const ComputedCell = ({ value, type, variant = "cell" }: ComputedCellProps) => {
+    if (isFormulaError(value)) {
+        return <span className="text-sm font-mono text-destructive">{value}</span>
+    }
+
+    return (
+        <span
+            className={`block text-sm text-muted-foreground ${variant === "cell" ? "truncate" : "break-words"}`}
+            title={formatCellValue(value, type)}
+        >
+            {formatCellValue(value, type)}
+        </span>
+    )
+}
+
+interface LinkCellEditorProps extends CellEditorProps {
+    targetTableId: string | undefined
+    multiple: boolean
+}
+
+export const LinkCellEditor = ({ value, onChange, targetTableId, multiple, variant = "cell" }: LinkCellEditorProps) => {
+    const [open, setOpen] = useState(false)
+    const targetTable = findTable(useTables(), targetTableId)
+    const ids = toLinkIds(value)
+
+    if (!targetTable) {
+        return <span className="text-sm text-muted-foreground">Linked table not found</span>
+    }
+
+    const rowsById = new Map(targetTable.rows.map((r) => [getRowId(r), r]))
+    // Ids of rows deleted from the target table are skipped rather than shown as broken chips.
+    const linkedIds = ids.filter((id) => rowsById.has(id))
+
+    const handleSelect = (id: string) => {
+        if (!multiple) {
+            onChange(ids[0] === id ? [] : [id])
+            setOpen(false)
+            return
+        }
+        onChange(ids.includes(id) ? ids.filter((i) => i !== id) : [...ids, id])
+    }
+
+    return (
+        <div className={`flex items-center gap-1 min-w-0 ${variant === "cell" ? "overflow-hidden" : "flex-wrap"}`}>
+            {linkedIds.map((id) => (
+                <Badge key={id} variant="secondary" className="min-w-0 shrink">
+                    <span className="truncate">{getRowTitle(targetTable, rowsById.get(id)!)}</span>
+                    <button
+                        type="button"
+                        className="rounded-full hover:text-foreground text-muted-foreground"
+                        onClick={() => onChange(ids.filter((i) => i !== id))}
+                    >
+                        <X className="size-3" />
+                        <span className="sr-only">Remove link</span>
+                    </button>
+                </Badge>
+            ))}
+            <Popover open={open} onOpenChange={setOpen}>
+                <PopoverTrigger asChild>
+                    <button
+                        type="button"
+                        className="shrink-0 text-muted-foreground hover:text-foreground transition-colors"
+                    >
+                        <Plus className="size-3.5" />
+                        <span className="sr-only">Link a record from {targetTable.name}</span>
+                    </button>
+                </PopoverTrigger>
+                <PopoverContent className="w-64 p-0" align="start">
+                    <Command>
+                        <CommandInput placeholder={`Search ${targetTable.name}...`} />
+                        <CommandList>
+                            <CommandEmpty>No records found.</CommandEmpty>
+                            <CommandGroup>
+                                {targetTable.rows.map((row) => {
+                                    const id = getRowId(row)
+                                    const keywords = targetTable.columns.map((c) =>
+                                        formatCellValue(row[c.key], c.type)
+                                    )
+                                    return (
+                                        <CommandItem
+                                            key={id}
+                                            value={id}
+                                            keywords={keywords}
+                                            onSelect={() => handleSelect(id)}
+                                        >
+                                            <Check className={ids.includes(id) ? "opacity-100" : "opacity-0"} />
+                                            <span className="truncate">{getRowTitle(targetTable, row)}</span>
+                                        </CommandItem>
+                                    )
+                                })}
+                            </CommandGroup>
+                        </CommandList>
+                    </Command>
+                </PopoverContent>
+            </Popover>
+        </div>
+    )
+}
+
+interface LookupCellProps {
+    value: unknown
+    targetTableId: string | undefined
+    field: string
+    variant?: EditorVariant
+}
+
+export const LookupCell = ({ value, targetTableId, field, variant = "cell" }: LookupCellProps) => {
+    const fieldConfig = findTable(useTables(), targetTableId)?.columns.find((c) => c.key === field)
+
+    if (!Array.isArray(value)) return <ComputedCell value={value} type="lookup" variant={variant} />
+
+    const formatted = value
+        .map((v) => formatCellValue(v, fieldConfig?.type ?? "text"))
+        .filter(Boolean)
+
+    return (
+        <div
+            className={`flex items-center gap-1 min-w-0 ${variant === "cell" ? "overflow-hidden" : "flex-wrap"}`}
+            title={formatted.join(", ")}
+        >
+            {formatted.map((text, i) => (
+                <Badge key={i} variant="outline" className="min-w-0 shrink">
+                    <span className="truncate">{text}</span>
+                </Badge>
+            ))}
+        </div>
+    )
+}
+
+interface FieldCellEditorProps extends CellEditorProps {
+    config: ColumnConfig
+    /** The table's columns, for finding the link a lookup reads through. */
+    columnConfigs: ColumnConfig[]
+    onCreateOption: (label: string) => void
+}
+
+/** The editor for a column's type; computed types show their value read-only. */
+export const CellEditor = ({
+    config,
+    columnConfigs,
+    value,
+    onChange,
+    onCreateOption,
+    variant = "cell",
+}: FieldCellEditorProps) => {
+    const props = { value, onChange, variant }
+
+    switch (config.type) {
+        case "text":
+            return <TextCellEditor {...props} />
+        case "long_text":
+            return <LongTextCellEditor {...props} />
+        case "checkbox":
+            return <CheckboxCellEditor {...props} />
+        case "select":
+            return <SelectCellEditor {...props} options={config.options ?? []} />
+        case "multi_select":
+            return <MultiSelectCellEditor {...props} options={config.options ?? []} onCreateOption={onCreateOption} />
+        case "date":
+            return <DateCellEditor {...props} />
+        case "number":
+            return <NumberCellEditor {...props} />
+        case "phone":
+            return <PhoneCellEditor {...props} />
+        case "email":
+            return <EmailCellEditor {...props} />
+        case "url":
+            return <UrlCellEditor {...props} />
+        case "currency":
+            return <CurrencyCellEditor {...props} />
+        case "percent":
+            return <PercentCellEditor {...props} />
+        case "formula":
+        case "rollup":
+            return <ComputedCell value={value} type={config.type} variant={variant} />
+        case "link":
+            return (
+                <LinkCellEditor
+                    {...props}
+                    targetTableId={config.link?.tableId}
+                    multiple={config.link?.multiple ?? false}
+                />
+            )
+        case "lookup":
+            return (
+                <LookupCell
+                    value={value}
+                    targetTableId={columnConfigs.find((c) => c.key === config.lookup?.linkKey)?.link?.tableId}
+                    field={config.lookup?.field ?? ""}
+                    variant={variant}
+                />
+            )
+        default:
+            return <TextCellEditor {...props} />
+    }
+}
@@ -7,6 +7,8 @@ import {
     ArrowLeft,
     ArrowRight,
     ArrowUpDown,
+    ArrowUp,
+    ArrowDown,
     EyeOff,
     Trash2,
     ChevronDown,
@@ -14,12 +16,21 @@ import {
     AlignLeft,
     CheckSquare,
     List,
+    ListChecks,
     Calendar,
     Hash,
     Phone,
     Mail,
+    Globe,
     DollarSign,
     Percent,
+    Sigma,
+    Link2,
+    Search,
+    Layers,
+    Pin,
+    PinOff,
+    Maximize2,
 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import {
@@ -30,19 +41,13 @@ import {
     DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu"
 import { Checkbox } from "@/components/ui/checkbox"
-import { type ColumnConfig, type ColumnType, COLUMN_TYPE_LABELS } from "@/lib/column-types"
 import {
-    TextCellEditor,
-    LongTextCellEditor,
-    CheckboxCellEditor,
-    SelectCellEditor,
-    DateCellEditor,
-    NumberCellEditor,
-    PhoneCellEditor,
-    EmailCellEditor,
-    CurrencyCellEditor,
-    PercentCellEditor,
-} from "@/components/cell-editors"
+    type ColumnConfig,
+    type ColumnType,
+    COLUMN_TYPE_LABELS,
+} from "@/lib/column-types"
+import { getSortingFn, isEmptyCellValue } from "@/lib/sorting"
+import { CellEditor } from "@/components/cell-editors"
 
 export type Row = Record<string, unknown>
 
@@ -51,10 +56,16 @@ export interface ColumnActions {
     onDuplicate: (key: string) => void
     onInsertLeft: (key: string) => void
     onInsertRight: (key: string) => void
-    onSort: (key: string) => void
+    /** `append` adds the column as a secondary sort instead of replacing the sort. */
+    onSort: (key: string, append: boolean) => void
     onHide: (key: string) => void
+    /** Freezes the first `count` visible data columns in the active view; 0 unfreezes them. */
+    onFreeze: (count: number) => void
     onDelete: (key: string) => void
     onCellChange: (rowIndex: number, key: string, value: unknown) => void
+    /** Opens the row in the detail panel. */
+    onExpand: (rowId: string) => void
+    onCreateOption: (key: string, label: string) => void
 }
 
 export const typeIcons: Record<ColumnType, React.ComponentType<{ className?: string }>> = {
@@ -62,12 +73,18 @@ export const typeIcons: Record<ColumnType, React.ComponentType<{ className?: str
     long_text: AlignLeft,
     checkbox: CheckSquare,
     select: List,
+    multi_select: ListChecks,
     date: Calendar,
     number: Hash,
     phone: Phone,
     email: Mail,
+    url: Globe,
     currency: DollarSign,
     percent: Percent,
+    formula: Sigma,
+    link: Link2,
+    lookup: Search,
+    rollup: Layers,
 }
 
 export const buildColumns = (
@@ -89,123 +106,137 @@ export const buildColumns = (
             </div>
         ),
         cell: ({ row }) => (
-            <div className="flex items-center justify-center">
+            <div className="flex items-center justify-center gap-1">
                 <Checkbox
                     checked={row.getIsSelected()}
                     onCheckedChange={(value) => row.toggleSelected(!!value)}
                     aria-label="Select row"
                 />
+                <Button
+                    variant="ghost"
+                    size="icon-xs"
+                    className="opacity-0 group-hover/row:opacity-100 focus-visible:opacity-100"
+                    title="Expand row"
+                    onClick={() => actions.onExpand(row.id)}
+                >
+                    <Maximize2 />
+                    <span className="sr-only">Expand row</span>
+                </Button>
             </div>
         ),
         enableSorting: false,
         enableHiding: false,
         enableResizing: false,
-        size: 40,
+        size: 64,
     }
 
     const dataColumns: ColumnDef<Row>[] = columnConfigs.map((config) => {
         const Icon = typeIcons[config.type]
 
         return {
-            accessorKey: config.key,
-            header: () => (
-                <div className="flex items-center justify-between gap-2 overflow-hidden">
-                    <div className="flex items-center gap-1.5 min-w-0">
-                        <Icon className="size-3.5 shrink-0" />
-                        <span className="truncate">{config.key}</span>
+            id: config.key,
+            accessorFn: (row) => (isEmptyCellValue(row[config.key]) ? undefined : row[config.key]),
+            sortingFn: getSortingFn(config),
+            sortUndefined: "last",
+            header: ({ column, table }) => {
+                const sorted = column.getIsSorted()
+                const SortIcon = sorted === "desc" ? ArrowDown : ArrowUp
+                return (
+                    <div className="flex items-center justify-between gap-2 overflow-hidden">
+                        <button
+                            type="button"
+                            className="flex items-center gap-1.5 min-w-0 cursor-pointer"
+                            title="Click to sort, shift-click to add a secondary sort"
+                            onClick={(e) => actions.onSort(config.key, e.shiftKey)}
+                        >
+                            <Icon className="size-3.5 shrink-0" />
+                            <span className="truncate">{config.key}</span>
+                            {sorted && (
+                                <span className="flex items-center text-xs text-muted-foreground shrink-0">
+                                    <SortIcon className="size-3" />
+                                    {table.getState().sorting.length > 1 && column.getSortIndex() + 1}
+                                </span>
+                            )}
+                        </button>
+                        <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                                <Button variant="ghost" size="icon-xs" className="shrink-0">
+                                    <ChevronDown />
+                                    <span className="sr-only">Column options for {config.key}</span>
+                                </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="start">
+                                <DropdownMenuItem onClick={() => actions.onEdit(config.key)}>
+                                    <Pencil />
+                                    Edit
+                                </DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => actions.onDuplicate(config.key)}>
+                                    <Copy />
+                                    Duplicate
+                                </DropdownMenuItem>
+                                <DropdownMenuSeparator />
+                                <DropdownMenuItem onClick={() => actions.onInsertLeft(config.key)}>
+                                    <ArrowLeft />
+                                    Insert left
+                                </DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => actions.onInsertRight(config.key)}>
+                                    <ArrowRight />
+                                    Insert right
+                                </DropdownMenuItem>
+                                <DropdownMenuSeparator />
+                                <DropdownMenuItem onClick={() => actions.onSort(config.key, false)}>
+                                    <ArrowUpDown />
+                                    Sort
+                                </DropdownMenuItem>
+                                <DropdownMenuSeparator />
+                                <DropdownMenuItem
+                                    // The selection column comes first, so a data column's index counts itself.
+                                    onClick={() => actions.onFreeze(table.getVisibleLeafColumns().indexOf(column))}
+                                >
+                                    <Pin />
+                                    Freeze up to here
+                                </DropdownMenuItem>
+                                {column.getIsPinned() && (
+                                    <DropdownMenuItem onClick={() => actions.onFreeze(0)}>
+                                        <PinOff />
+                                        Unfreeze columns
+                                    </DropdownMenuItem>
+                                )}
+                                <DropdownMenuItem onClick={() => actions.onHide(config.key)}>
+                                    <EyeOff />
+                                    Hide
+                                </DropdownMenuItem>
+                                <DropdownMenuItem
+                                    variant="destructive"
+                                    onClick={() => actions.onDelete(config.key)}
+                                >
+                                    <Trash2 />
+                                    Delete
+                                </DropdownMenuItem>
+                            </DropdownMenuContent>
+                        </DropdownMenu>
                     </div>
-                    <DropdownMenu>
-                        <DropdownMenuTrigger asChild>
-                            <Button variant="ghost" size="icon-xs" className="shrink-0">
-                                <ChevronDown />
-                                <span className="sr-only">Column options for {config.key}</span>
-                            </Button>
-                        </DropdownMenuTrigger>
-                        <DropdownMenuContent align="start">
-                            <DropdownMenuItem onClick={() => actions.onEdit(config.key)}>
-                                <Pencil />
-                                Edit
-                            </DropdownMenuItem>
-                            <DropdownMenuItem onClick={() => actions.onDuplicate(config.key)}>
-                                <Copy />
-                                Duplicate
-                            </DropdownMenuItem>
-                            <DropdownMenuSeparator />
-                            <DropdownMenuItem onClick={() => actions.onInsertLeft(config.key)}>
-                                <ArrowLeft />
-                                Insert left
-                            </DropdownMenuItem>
-                            <DropdownMenuItem onClick={() => actions.onInsertRight(config.key)}>
-                                <ArrowRight />
-                                Insert right
-                            </DropdownMenuItem>
-                            <DropdownMenuSeparator />
-                            <DropdownMenuItem onClick={() => actions.onSort(config.key)}>
-                                <ArrowUpDown />
-                                Sort
-                            </DropdownMenuItem>
-                            <DropdownMenuSeparator />
-                            <DropdownMenuItem onClick={() => actions.onHide(config.key)}>
-                                <EyeOff />
-                                Hide
-                            </DropdownMenuItem>
-                            <DropdownMenuItem
-                                variant="destructive"
-                                onClick={() => actions.onDelete(config.key)}
-                            >
-                                <Trash2 />
-                                Delete
-                            </DropdownMenuItem>
-                        </DropdownMenuContent>
-                    </DropdownMenu>
-                </div>
-            ),
-            meta: { type: config.type, options: config.options },
+                )
+            },
+            meta: { type: config.type, options: config.options, formula: config.formula },
             cell: ({ getValue, row: tableRow }) => {
                 const value = getValue()
                 const rowIndex = tableRow.index
                 const handleChange = (v: unknown) =>
                     actions.onCellChange(rowIndex, config.key, v)
 
-                switch (config.type) {
-                    case "text":
-                        return <TextCellEditor value={value} onChange={handleChange} />
-                    case "long_text":
-                        return <LongTextCellEditor value={value} onChange={handleChange} />
-                    case "checkbox":
-                        return <CheckboxCellEditor value={value} onChange={handleChange} />
-                    case "select":
-                        return (
-                            <SelectCellEditor
-                                value={value}
-                                onChange={handleChange}
-                                options={config.options ?? []}
-                            />
-                        )
-                    case "date":
-                        return <DateCellEditor value={value} onChange={handleChange} />
-                    case "number":
-                        return <NumberCellEditor value={value} onChange={handleChange} />
-                    case "phone":
-                        return <PhoneCellEditor value={value} onChange={handleChange} />
-                    case "email":
-                        return <EmailCellEditor value={value} onChange={handleChange} />
-                    case "currency":
-                        return <CurrencyCellEditor value={value} onChange={handleChange} />
-                    case "percent":
-                        return <PercentCellEditor value={value} onChange={handleChange} />
-                    default:
-                        return <TextCellEditor value={value} onChange={handleChange} />
-                }
+                return (
+                    <CellEditor
+                        config={config}
+                        columnConfigs={columnConfigs}
+                        value={value}
+                        onChange={handleChange}
+                        onCreateOption={(label) => actions.onCreateOption(config.key, label)}
+                    />
+                )
             },
         }
     })
 
     return [selectColumn, ...dataColumns]
 }
-
-export const initialColumns: ColumnConfig[] = [
-    { key: "status", type: "text" },
-    { key: "email", type: "email" },
-    { key: "amount", type: "currency" },
-]
@@ -1,19 +1,22 @@
 "use client"
 
-import { useState, useMemo, useCallback } from "react"
+import { useState, useMemo, useCallback, useEffect, useRef, type Dispatch, type SetStateAction } from "react"
 import {
     flexRender,
+    functionalUpdate,
     getCoreRowModel,
+    getFilteredRowModel,
     getSortedRowModel,
     useReactTable,
-    type SortingState,
-    type VisibilityState,
+    type Column,
+    type Row as TableRowModel,
     type RowSelectionState,
+    type Updater,
 } from "@tanstack/react-table"
-import { ChevronDown, Plus, Trash2, X } from "lucide-react"
+import { ChevronDown, ChevronRight, Plus, Trash2, Upload, X } from "lucide-react"
+import { toast } from "sonner"
 
 import {
-    Table,
     TableBody,
     TableCell,
     TableHead,
@@ -44,61 +47,137 @@ import {
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Badge } from "@/components/ui/badge"
 import { type Row, type ColumnActions, buildColumns, typeIcons } from "@/components/columns"
+import { BoardView } from "@/components/board-view"
+import { CalendarView } from "@/components/calendar-view"
+import { GalleryView } from "@/components/gallery-view"
+import { TimelineView } from "@/components/timeline-view"
+import { ViewTabs } from "@/components/view-tabs"
+import { FilterPanel } from "@/components/filter-panel"
+import { GroupPanel } from "@/components/group-panel"
+import { FieldsPanel } from "@/components/fields-panel"
+import { SortPanel } from "@/components/sort-panel"
+import { ImportDialog } from "@/components/import-dialog"
+import { ExportMenu } from "@/components/export-menu"
+import { TrashSheet } from "@/components/trash-sheet"
+import { RowDetail } from "@/components/row-detail"
 import {
     type ColumnConfig,
     type ColumnType,
     type SelectOption,
+    type LookupConfig,
     COLUMN_TYPES,
     COLUMN_TYPE_LABELS,
     OPTION_COLORS,
     getDefaultValue,
     formatCellValue,
+    hasOptions,
+    toOptionLabels,
+    addOptionLabels,
+    moveColumn,
 } from "@/lib/column-types"
+import { formatCellText, parseCellText } from "@/lib/clipboard"
+import { convertColumn, needsConversion } from "@/lib/convert"
+import { type ImportResult } from "@/lib/import"
+import { renameFormulaReference } from "@/lib/formula"
+import { type AggregateMode, type RollupFunction, AGGREGATE_LABELS, ROLLUP_LABELS, computeAggregate } from "@/lib/aggregates"
+import {
+    computeRows,
+    planComputedColumns,
+    recomputeRow,
+    renameColumnReferences,
+    renameLinkedFieldReferences,
+    validateFormula,
+} from "@/lib/computed-columns"
+import { findTable, getRowId } from "@/lib/base"
+import { countFilterConditions, matchesFilter } from "@/lib/filters"
+import { type RowGroup, groupRows } from "@/lib/grouping"
+import { toggleSort } from "@/lib/sorting"
+import {
+    type SavedView,
+    type ViewType,
+    applyManualOrder,
+    createView,
+    duplicateView,
+    removeViewColumn,
+    renameViewColumn,
+} from "@/lib/views"
+import { type TrashItem, removeOrphanedKeys, trashColumn, trashRows } from "@/lib/trash"
+import { useLinkedTables, useTables } from "@/hooks/use-tables"
+import { type CellPosition, useActiveCell } from "@/hooks/use-active-cell"
+import { type VirtualSlot, useGridVirtualizer } from "@/hooks/use-grid-virtualizer"
+import { useExpandedRow } from "@/hooks/use-expanded-row"
 
 interface DataTableProps {
-    initialColumns: ColumnConfig[]
-    data: Row[]
+    tableId: string
+    columnConfigs: ColumnConfig[]
+    rows: Row[]
+    /** Saved views of this table; there is always at least one. */
+    views: SavedView[]
+    onColumnConfigsChange: Dispatch<SetStateAction<ColumnConfig[]>>
+    onRowsChange: Dispatch<SetStateAction<Row[]>>
+    onViewsChange: Dispatch<SetStateAction<SavedView[]>>
+    /** Deleted columns and rows, newest first. */
+    trash: TrashItem[]
+    onTrashChange: Dispatch<SetStateAction<TrashItem[]>>
+    /** Restores a trash item into the table it was deleted from, by the ids of both. */
+    onRestoreTrash: (tableId: string, itemId: string) => void
+    /** Called after a column of this table is renamed, so other tables can follow references to it. */
+    onColumnRename: (oldKey: string, newKey: string) => void
 }
 
-type PendingAction =
-    | { type: "edit"; key: string }
-    | { type: "insert"; key: string; side: "left" | "right" }
+/** Column types whose footer and group headers show an aggregate. */
+const hasAggregate = (type: ColumnType) => type === "number" || type === "currency"
 
-type AggregateMode = "sum" | "average" | "median"
+/** Lost values and new options listed in the type-change preview; the rest are counted. */
+const MAX_PREVIEWED_VALUES = 8
 
-const AGGREGATE_LABELS: Record<AggregateMode, string> = {
-    sum: "Sum",
-    average: "Average",
-    median: "Median",
-}
+type BodyItem =
+    | { kind: "group"; group: RowGroup<TableRowModel<Row>> }
+    | { kind: "row"; row: TableRowModel<Row> }
 
-const computeAggregate = (values: number[], mode: AggregateMode): number => {
-    if (values.length === 0) return 0
-    switch (mode) {
-        case "sum":
-            return values.reduce((a, b) => a + b, 0)
-        case "average":
-            return values.reduce((a, b) => a + b, 0) / values.length
-        case "median": {
-            const sorted = [...values].sort((a, b) => a - b)
-            const mid = Math.floor(sorted.length / 2)
-            return sorted.length % 2 !== 0
-                ? sorted[mid]
-                : (sorted[mid - 1] + sorted[mid]) / 2
-        }
-    }
-}
+type PendingAction =
+    | { type: "edit"; key: string }
+    | { type: "insert"; key: string; side: "left" | "right" }
 
-export const DataTable = ({ initialColumns, data }: DataTableProps) => {
-    const [columnConfigs, setColumnConfigs] = useState<ColumnConfig[]>(initialColumns)
-    const [rows, setRows] = useState<Row[]>(data)
-    const [sorting, setSorting] = useState<SortingState>([])
-    const [columnVisibility, setColumnVisibility] = useState<VisibilityState>({})
+export const DataTable = ({
+    tableId,
+    columnConfigs,
+    rows,
+    views,
+    onColumnConfigsChange: setColumnConfigs,
+    onRowsChange: setRows,
+    onViewsChange: setViews,
+    trash,
+    onTrashChange: setTrash,
+    onRestoreTrash,
+    onColumnRename,
+}: DataTableProps) => {
+    const tables = useTables()
+    const [activeViewId, setActiveViewId] = useState(views[0]?.id ?? "")
+    const [expandedRowId, setExpandedRowId] = useExpandedRow()
     const [rowSelection, setRowSelection] = useState<RowSelectionState>({})
-    const [aggregateModes, setAggregateModes] = useState<Record<string, AggregateMode>>({})
+    const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set())
+    const [importOpen, setImportOpen] = useState(false)
+    const [draggingColumn, setDraggingColumn] = useState<string | null>(null)
+    const [columnDropTarget, setColumnDropTarget] = useState<{ key: string; side: "left" | "right" } | null>(null)
 
+    const activeView = views.find((v) => v.id === activeViewId) ?? views[0]
+    const { sorting, filter, grouping, columnVisibility, columnOrder, columnSizing, frozenColumns, aggregateModes } =
+        activeView
+    // Depend on the id, not the view object, so column actions stay stable while the view changes.
+    const viewId = activeView.id
 
+    const updateView = useCallback(
+        <K extends keyof SavedView>(key: K, updater: Updater<SavedView[K]>) => {
+            setViews((prev) =>
+                prev.map((v) => (v.id === viewId ? { ...v, [key]: functionalUpdate(updater, v[key]) } : v))
+            )
+        },
+        [viewId, setViews]
+    )
 
     const [pendingAction, setPendingAction] = useState<PendingAction | null>(null)
     const [dialogInput, setDialogInput] = useState("")
@@ -106,8 +185,66 @@ export const DataTable = ({ initialColumns, data }: DataTableProps) => {
     const [dialogOptions, setDialogOptions] = useState<SelectOption[]>([])
     const [newOptionValue, setNewOptionValue] = useState("")
     const [newOptionColor, setNewOptionColor] = useState<string>(OPTION_COLORS[0].value)
+    const [dialogFormula, setDialogFormula] = useState("")
+    const [dialogLinkTableId, setDialogLinkTableId] = useState("")
+    const [dialogLinkMultiple, setDialogLinkMultiple] = useState(true)
+    const [dialogLookup, setDialogLookup] = useState<LookupConfig>({ linkKey: "", field: "" })
 
     const columnKeys = useMemo(() => columnConfigs.map((c) => c.key), [columnConfigs])
+    const configsByKey = useMemo(() => new Map(columnConfigs.map((c) => [c.key, c])), [columnConfigs])
+
+    const linkedTables = useLinkedTables(columnConfigs)
+    // The cache is keyed by raw row object and rebuilt with the plan or a linked table,
+    // so editing a formula recomputes every row while editing a cell recomputes only that row.
+    const { computedPlan, computedCache, computeContext } = useMemo(
+        () => ({
+            computedPlan: planComputedColumns(columnConfigs),
+            computedCache: new WeakMap<Row, Row>(),
+            computeContext: { tables: linkedTables },
+        }),
+        [columnConfigs, linkedTables]
+    )
+    const computedRows = useMemo(
+        () => computeRows(rows, columnConfigs, computedPlan, computedCache, computeContext),
+        [rows, columnConfigs, computedPlan, computedCache, computeContext]
+    )
+    // Read by onCellChange so the column defs don't rebuild whenever a linked table changes.
+    const computedRef = useRef({ computedPlan, computedCache, computeContext })
+    useEffect(() => {
+        computedRef.current = { computedPlan, computedCache, computeContext }
+    }, [computedPlan, computedCache, computeContext])
+    // Read by onDelete, which moves a column's values to the trash, for the same reason.
+    const rowsRef = useRef(rows)
+    useEffect(() => {
+        rowsRef.current = rows
+    }, [rows])
+
+    const dialogFormulaError = useMemo(() => {
+        if (dialogType !== "formula" || !pendingAction) return null
+        const others = pendingAction.type === "edit"
+            ? columnConfigs.filter((c) => c.key !== pendingAction.key)
+            : columnConfigs
+        return validateFormula(others, dialogInput.trim(), dialogFormula)
+    }, [dialogType, pendingAction, columnConfigs, dialogInput, dialogFormula])
+
+    const dialogLookupTable = findTable(
+        tables,
+        columnConfigs.find((c) => c.key === dialogLookup.linkKey)?.link?.tableId
+    )
+
+    // Editing a column's type or removing options re-reads its values; the dialog previews the result.
+    const columnConversion = useMemo(() => {
+        if (pendingAction?.type !== "edit") return null
+        const from = columnConfigs.find((c) => c.key === pendingAction.key)
+        if (!from) return null
+        const to: ColumnConfig = {
+            ...from,
+            type: dialogType,
+            options: hasOptions(dialogType) ? dialogOptions : undefined,
+            link: dialogType === "link" ? { tableId: dialogLinkTableId, multiple: dialogLinkMultiple } : undefined,
+        }
+        return needsConversion(from, to) ? convertColumn(computedRows, from, to, tables) : null
+    }, [pendingAction, columnConfigs, dialogType, dialogOptions, dialogLinkTableId, dialogLinkMultiple, computedRows, tables])
 
     const openDialog = useCallback((action: PendingAction, overrideType?: ColumnType) => {
         setPendingAction(action)
@@ -116,14 +253,22 @@ export const DataTable = ({ initialColumns, data }: DataTableProps) => {
             setDialogInput(action.key)
             setDialogType(config?.type ?? "text")
             setDialogOptions(config?.options ?? [])
+            setDialogFormula(config?.formula ?? "")
+            setDialogLinkTableId(config?.link?.tableId ?? "")
+            setDialogLinkMultiple(config?.link?.multiple ?? true)
+            setDialogLookup(config?.lookup ?? { linkKey: "", field: "" })
         } else {
             const type = overrideType ?? "text"
             setDialogInput(COLUMN_TYPE_LABELS[type])
             setDialogType(type)
             setDialogOptions([])
+            setDialogFormula("")
+            setDialogLinkTableId(tables.find((t) => t.id !== tableId)?.id ?? tableId)
+            setDialogLinkMultiple(true)
+            setDialogLookup({ linkKey: columnConfigs.find((c) => c.type === "link")?.key ?? "", field: "" })
         }
         setNewOptionValue("")
-    }, [columnConfigs])
+    }, [columnConfigs, tables, tableId])
 
     const closeDialog = useCallback(() => {
         setPendingAction(null)
@@ -132,34 +277,66 @@ export const DataTable = ({ initialColumns, data }: DataTableProps) => {
         setDialogOptions([])
         setNewOptionValue("")
         setNewOptionColor(OPTION_COLORS[0].value)
+        setDialogFormula("")
+        setDialogLinkTableId("")
+        setDialogLinkMultiple(true)
+        setDialogLookup({ linkKey: "", field: "" })
     }, [])
 
     const handleDialogSubmit = useCallback(() => {
         const name = dialogInput.trim()
         if (!pendingAction || !name) return
+        if (dialogFormulaError) return
+        if (dialogType === "link" && !dialogLinkTableId) return
+        const link = dialogType === "link"
+            ? { tableId: dialogLinkTableId, multiple: dialogLinkMultiple }
+            : undefined
+        const isLookup = dialogType === "lookup" || dialogType === "rollup"
+        if (isLookup && (!dialogLookup.linkKey || !dialogLookup.field)) return
+        const lookup = isLookup
+            ? { ...dialogLookup, aggregate: dialogType === "rollup" ? dialogLookup.aggregate ?? "sum" : undefined }
+            : undefined
 
         if (pendingAction.type === "edit") {
             const oldKey = pendingAction.key
             const nameChanged = name !== oldKey
             if (nameChanged && columnKeys.includes(name)) return
 
-            setColumnConfigs((prev) =>
-                prev.map((c) => {
-                    if (c.key !== oldKey) return c
+            setColumnConfigs((prev) => {
+                const next = prev.map((c) => {
+                    if (c.key !== oldKey) {
+                        return nameChanged ? renameColumnReferences(c, oldKey, name) : c
+                    }
                     return {
                         ...c,
                         key: nameChanged ? name : c.key,
                         type: dialogType,
-                        options: dialogType === "select" ? dialogOptions : undefined,
+                        options: hasOptions(dialogType) ? columnConversion?.config.options ?? dialogOptions : undefined,
+                        formula: dialogType === "formula"
+                            ? renameFormulaReference(dialogFormula, oldKey, name)
+                            : undefined,
+                        link,
+                        lookup,
                     }
                 })
-            )
+                // A table can link to itself, so its own lookups may read the renamed field too.
+                return nameChanged ? renameLinkedFieldReferences(next, tableId, oldKey, name) : next
+            })
 
             if (nameChanged) {
+                setViews((prev) => prev.map((v) => renameViewColumn(v, oldKey, name)))
+                onColumnRename(oldKey, name)
+            }
+
+            if (nameChanged || columnConversion) {
                 setRows((prev) =>
                     prev.map((row) => {
                         const { [oldKey]: value, ...rest } = row
-                        return { ...rest, [name]: value }
+                        const id = getRowId(row)
+                        return {
+                            ...rest,
+                            [name]: columnConversion?.values.has(id) ? columnConversion.values.get(id) : value,
+                        }
                     })
                 )
             }
@@ -173,7 +350,10 @@ export const DataTable = ({ initialColumns, data }: DataTableProps) => {
             const newConfig: ColumnConfig = {
                 key: name,
                 type: dialogType,
-                options: dialogType === "select" ? dialogOptions : undefined,
+                options: hasOptions(dialogType) ? dialogOptions : undefined,
+                formula: dialogType === "formula" ? dialogFormula : undefined,
+                link,
+                lookup,
             }
 
             setColumnConfigs((prev) => [
@@ -187,16 +367,16 @@ export const DataTable = ({ initialColumns, data }: DataTableProps) => {
         }
 
         closeDialog()
-    }, [dialogInput, dialogType, dialogOptions, pendingAction, columnKeys, closeDialog])
+    }, [dialogInput, dialogType, dialogOptions, dialogFormula, dialogFormulaError, dialogLinkTableId, dialogLinkMultiple, dialogLookup, pendingAction, columnKeys, columnConversion, closeDialog, setColumnConfigs, setRows, setViews, tableId, onColumnRename])
 
     const handleQuickAdd = useCallback((type: ColumnType) => {
-        if (type === "select") {
+        if (hasOptions(type) || type === "formula" || type === "link" || type === "lookup" || type === "rollup") {
             const lastKey = columnKeys[columnKeys.length - 1]
             openDialog(
                 lastKey
                     ? { type: "insert", key: lastKey, side: "right" }
                     : { type: "insert", key: "", side: "right" },
-                "select"
+                type
             )
             return
         }
@@ -213,7 +393,7 @@ export const DataTable = ({ initialColumns, data }: DataTableProps) => {
         setRows((prev) =>
             prev.map((row) => ({ ...row, [name]: getDefaultValue(type) }))
         )
-    }, [columnKeys, openDialog])
+    }, [columnKeys, openDialog, setColumnConfigs, setRows])
 
     const columnActions: ColumnActions = useMemo(
         () => ({
@@ -243,27 +423,54 @@ export const DataTable = ({ initialColumns, data }: DataTableProps) => {
             },
             onInsertLeft: (key) => openDialog({ type: "insert", key, side: "left" }),
             onInsertRight: (key) => openDialog({ type: "insert", key, side: "right" }),
-            onSort: (key) => {
-                setSorting((prev) => {
-                    const existing = prev.find((s) => s.id === key)
-                    if (!existing) return [{ id: key, desc: false }]
-                    if (!existing.desc) return [{ id: key, desc: true }]
-                    return []
-                })
+            onSort: (key, append) => {
+                updateView("sorting", (prev) => toggleSort(prev, key, append))
             },
             onHide: (key) => {
-                setColumnVisibility((prev) => ({ ...prev, [key]: false }))
+                updateView("columnVisibility", (prev) => ({ ...prev, [key]: false }))
+            },
+            onFreeze: (count) => {
+                updateView("frozenColumns", count)
             },
             onDelete: (key) => {
-                setColumnConfigs((prev) => prev.filter((c) => c.key !== key))
+                const trashed = trashColumn({ columns: columnConfigs, rows: rowsRef.current }, key)
+                setColumnConfigs(trashed.columns)
+                setRows(trashed.rows)
+                setTrash((prev) => [trashed.item, ...prev])
+                toast(`Moved column "${key}" to the trash`, {
+                    action: { label: "Undo", onClick: () => onRestoreTrash(tableId, trashed.item.id) },
+                })
             },
+            onCreateOption: (key, label) => {
+                setColumnConfigs((prev) => prev.map((c) => (c.key === key ? addOptionLabels(c, [label]) : c)))
+            },
+            onExpand: (rowId) => setExpandedRowId(rowId, "push"),
             onCellChange: (rowIndex, key, value) => {
                 setRows((prev) =>
-                    prev.map((row, i) => (i === rowIndex ? { ...row, [key]: value } : row))
+                    prev.map((row, i) => {
+                        if (i !== rowIndex) return row
+                        const next = { ...row, [key]: value }
+                        // Seed the cache so only formulas downstream of `key` are re-evaluated.
+                        const { computedPlan, computedCache, computeContext } = computedRef.current
+                        const computed = computedCache.get(row)
+                        if (computed) {
+                            computedCache.set(
+                                next,
+                                recomputeRow(
+                                    { ...computed, [key]: value },
+                                    key,
+                                    columnConfigs,
+                                    computedPlan,
+                                    computeContext
+                                )
+                            )
+                        }
+                        return next
+                    })
                 )
             },
         }),
-        [columnConfigs, columnKeys, openDialog]
+        [columnConfigs, columnKeys, openDialog, setColumnConfigs, setRows, setTrash, updateView, tableId, onRestoreTrash, setExpandedRowId]
     )
 
     const columns = useMemo(
@@ -271,211 +478,727 @@ export const DataTable = ({ initialColumns, data }: DataTableProps) => {
         [columnConfigs, columnActions]
     )
 
+    // The view's own order comes first; columns it doesn't list follow in table order.
+    const orderedKeys = useMemo(
+        () => applyManualOrder(columnKeys, columnOrder, (key) => key),
+        [columnKeys, columnOrder]
+    )
+    const tableColumnOrder = useMemo(() => ["select", ...orderedKeys], [orderedKeys])
+
+    // Frozen columns are pinned left in tanstack. They're the first ones shown, so pinning
+    // them keeps the display order and only makes them stick.
+    const columnPinning = useMemo(() => {
+        if (frozenColumns === 0) return { left: [] }
+        const visible = orderedKeys.filter((key) => columnVisibility[key] !== false)
+        return { left: ["select", ...visible.slice(0, frozenColumns)] }
+    }, [frozenColumns, orderedKeys, columnVisibility])
+
     const table = useReactTable({
-        data: rows,
+        data: computedRows,
         columns,
-        state: { sorting, columnVisibility, rowSelection },
+        state: {
+            sorting,
+            // The view's filter tree runs as tanstack's global filter; an empty tree turns filtering off.
+            globalFilter: countFilterConditions(filter) > 0 ? filter : undefined,
+            columnVisibility,
+            columnOrder: tableColumnOrder,
+            columnSizing,
+            columnPinning,
+            rowSelection,
+        },
         getRowId: (row) => String(row.id ?? ""),
-        onSortingChange: setSorting,
-        onColumnVisibilityChange: setColumnVisibility,
+        // The global filter is checked per filterable column and a row passes if any column does,
+        // so limit it to one column to evaluate the whole-row filter tree once per row.
+        getColumnCanGlobalFilter: (column) => column.id === columnKeys[0],
+        globalFilterFn: (row, _columnId, value) => matchesFilter(row.original, value, configsByKey),
+        onSortingChange: (updater) => updateView("sorting", updater),
+        onColumnVisibilityChange: (updater) => updateView("columnVisibility", updater),
+        onColumnSizingChange: (updater) => updateView("columnSizing", updater),
         onRowSelectionChange: setRowSelection,
         getCoreRowModel: getCoreRowModel(),
+        getFilteredRowModel: getFilteredRowModel(),
         getSortedRowModel: getSortedRowModel(),
         columnResizeMode: "onChange",
         enableColumnResizing: true,
     })
 
-    const handleAddRow = useCallback(() => {
+    const createRow = useCallback((values: Row = {}): Row => {
         const emptyRow: Row = { id: crypto.randomUUID() }
         for (const config of columnConfigs) {
             emptyRow[config.key] = getDefaultValue(config.type)
         }
-        setRows((prev) => [...prev, emptyRow])
+        return { ...emptyRow, ...values }
     }, [columnConfigs])
 
+    const handleAddRow = useCallback((values: Row = {}) => {
+        setRows((prev) => [...prev, createRow(values)])
+    }, [createRow, setRows])
+
+    // New columns are filled with their default in existing rows, like any added column.
+    const handleImport = useCallback(({ columns: nextColumns, rows: imported }: ImportResult) => {
+        const added = nextColumns.filter((c) => !columnKeys.includes(c.key))
+        const defaults: Row = Object.fromEntries(added.map((c) => [c.key, getDefaultValue(c.type)]))
+        setColumnConfigs(nextColumns)
+        setRows((prev) => [
+            ...prev.map((row) => ({ ...defaults, ...row })),
+            ...imported.map((values) => createRow({ ...defaults, ...values })),
+        ])
+    }, [columnKeys, createRow, setColumnConfigs, setRows])
+
+    const handleCreateView = useCallback((type: ViewType) => {
+        const view = createView(views, type)
+        setViews((prev) => [...prev, view])
+        setActiveViewId(view.id)
+    }, [views, setViews])
+
+    const handleRenameView = useCallback((id: string, name: string) => {
+        setViews((prev) => prev.map((v) => (v.id === id ? { ...v, name } : v)))
+    }, [setViews])
+
+    const handleDuplicateView = useCallback((id: string) => {
+        const source = views.find((v) => v.id === id)
+        if (!source) return
+        const copy = duplicateView(views, source)
+        setViews((prev) => {
+            const idx = prev.findIndex((v) => v.id === id)
+            return [...prev.slice(0, idx + 1), copy, ...prev.slice(idx + 1)]
+        })
+        setActiveViewId(copy.id)
+    }, [views, setViews])
+
+    const handleDeleteView = useCallback((id: string) => {
+        if (views.length <= 1) return
+        const idx = views.findIndex((v) => v.id === id)
+        const remaining = views.filter((v) => v.id !== id)
+        setViews((prev) => prev.filter((v) => v.id !== id))
+        if (id === viewId) setActiveViewId(remaining[Math.max(0, idx - 1)].id)
+    }, [views, viewId, setViews])
+
+    // Other view types show the grid's filtered and sorted rows and edit them by id.
+    const rowModel = table.getRowModel()
+    const viewRows = useMemo(() => rowModel.rows.map((r) => r.original), [rowModel])
+    const filteredRows = table.getFilteredRowModel().rows
+
+    const groups = useMemo(
+        () => groupRows(rowModel.rows, grouping, configsByKey, (row, key) => row.original[key]),
+        [rowModel, grouping, configsByKey]
+    )
+
+    // The grid's body in display order: each group header, then its rows unless it's collapsed.
+    const bodyItems = useMemo((): BodyItem[] => {
+        if (groups.length === 0) return rowModel.rows.map((row) => ({ kind: "row", row }))
+        const collect = (group: RowGroup<TableRowModel<Row>>): BodyItem[] => {
+            const header: BodyItem = { kind: "group", group }
+            if (collapsedGroups.has(group.id)) return [header]
+            if (group.subgroups.length > 0) return [header, ...group.subgroups.flatMap(collect)]
+            return [header, ...group.rows.map((row): BodyItem => ({ kind: "row", row }))]
+        }
+        return groups.flatMap(collect)
+    }, [groups, rowModel, collapsedGroups])
+
+    // Rows in the order the grid shows them, for keyboard navigation.
+    const displayRows = useMemo(
+        () => bodyItems.flatMap((item) => (item.kind === "row" ? [item.row] : [])),
+        [bodyItems]
+    )
+    // Group ids are prefixed so they can't collide with row ids.
+    const bodyKeys = useMemo(
+        () => bodyItems.map((item) => (item.kind === "row" ? item.row.id : `group:${item.group.id}`)),
+        [bodyItems]
+    )
+    const bodyIndexByKey = useMemo(() => new Map(bodyKeys.map((key, i) => [key, i])), [bodyKeys])
+
+    const leafColumns = table.getVisibleLeafColumns()
+    const leafColumnIds = leafColumns.map((c) => c.id)
+    const visibleColumnIds = leafColumnIds.filter((id) => configsByKey.has(id))
+
+    const getCellText = useCallback(
+        (row: TableRowModel<Row>, columnId: string) =>
+            formatCellText(row.original[columnId], configsByKey.get(columnId)!, tables),
+        [configsByKey, tables]
+    )
+
+    // Rows past the last displayed one are appended; columns past the last visible one are dropped.
+    const handlePaste = useCallback((start: CellPosition, values: string[][]) => {
+        const startRow = displayRows.findIndex((r) => r.id === start.rowId)
+        const startCol = visibleColumnIds.indexOf(start.columnId)
+        if (startRow === -1 || startCol === -1) return
+
+        const patches = new Map<string, Row>()
+        const added: Row[] = []
+        const newLabels = new Map<string, string[]>()
+        values.forEach((line, i) => {
+            const patch: Row = {}
+            line.forEach((text, j) => {
+                const config = configsByKey.get(visibleColumnIds[startCol + j])
+                if (!config) return
+                const value = parseCellText(text, config, tables)
+                if (value === undefined) return
+                patch[config.key] = value
+                if (hasOptions(config.type)) {
+                    newLabels.set(config.key, [...(newLabels.get(config.key) ?? []), ...toOptionLabels(value)])
+                }
+            })
+            const target = displayRows[startRow + i]
+            if (target) patches.set(target.id, patch)
+            else added.push(createRow(patch))
+        })
+
+        if (newLabels.size > 0) {
+            setColumnConfigs((prev) =>
+                prev.map((c) => (newLabels.has(c.key) ? addOptionLabels(c, newLabels.get(c.key)!) : c))
+            )
+        }
+        setRows((prev) => [
+            ...prev.map((row) => {
+                const patch = patches.get(getRowId(row))
+                return patch ? { ...row, ...patch } : row
+            }),
+            ...added,
+        ])
+    }, [displayRows, visibleColumnIds, configsByKey, tables, createRow, setColumnConfigs, setRows])
+
+    const { activeCell, rangeEnd, isActiveCell, isInRange, isMultiCell, getCellProps, gridProps } = useActiveCell({
+        rows: displayRows,
+        columnIds: visibleColumnIds,
+        configsByKey,
+        onCellChange: columnActions.onCellChange,
+        getCellText,
+        onPaste: handlePaste,
+    })
+
+    const scrollRef = useRef<HTMLDivElement>(null)
+    const { rowSlots, columnSlots, measureRow } = useGridVirtualizer({
+        scrollRef,
+        rowKeys: bodyKeys,
+        columnIds: leafColumnIds,
+        columnWidths: leafColumns.map((c) => c.getSize()),
+        // Frozen columns, and at least the selection column and the first field, which a group header's label spans.
+        pinnedColumns: Math.max(2, columnPinning.left.length),
+        keepRendered: [activeCell, rangeEnd].flatMap((cell) => {
+            const rowIndex = cell ? bodyIndexByKey.get(cell.rowId) : undefined
+            const columnIndex = cell ? leafColumnIds.indexOf(cell.columnId) : -1
+            return rowIndex === undefined || columnIndex === -1 ? [] : [{ rowIndex, columnIndex }]
+        }),
+    })
+
+    const getAggregate = useCallback((rows: TableRowModel<Row>[], config: ColumnConfig) => {
+        const values = rows
+            .map((r) => Number(r.original[config.key]))
+            .filter((v) => !isNaN(v))
+        return computeAggregate(values, aggregateModes[config.key] ?? "sum")
+    }, [aggregateModes])
+
+    // Aggregates cover every filtered row, not only the rendered ones, so they're worked out
+    // once per change rather than on every scroll. Each group's are keyed by its id.
+    const footerAggregates = useMemo(
+        () => new Map(columnConfigs.filter((c) => hasAggregate(c.type)).map((c) => [c.key, getAggregate(filteredRows, c)])),
+        [columnConfigs, filteredRows, getAggregate]
+    )
+    const groupAggregates = useMemo(() => {
+        const aggregated = columnConfigs.filter((c) => hasAggregate(c.type))
+        const byGroup = new Map<string, Map<string, number>>()
+        const collect = (group: RowGroup<TableRowModel<Row>>) => {
+            byGroup.set(group.id, new Map(aggregated.map((c) => [c.key, getAggregate(group.rows, c)])))
+            group.subgroups.forEach(collect)
+        }
+        groups.forEach(collect)
+        return byGroup
+    }, [columnConfigs, groups, getAggregate])
+
+    const toggleGroup = useCallback((id: string) => {
+        setCollapsedGroups((prev) => {
+            const next = new Set(prev)
+            if (!next.delete(id)) next.add(id)
+            return next
+        })
+    }, [])
+
+    const handleRowCellChange = useCallback((rowId: string, key: string, value: unknown) => {
+        const index = rows.findIndex((r) => getRowId(r) === rowId)
+        if (index !== -1) columnActions.onCellChange(index, key, value)
+    }, [rows, columnActions])
+
+    // The panel moves through rows in the order the grid shows them.
+    const expandedRow = useMemo(
+        () => (expandedRowId ? computedRows.find((row) => getRowId(row) === expandedRowId) ?? null : null),
+        [computedRows, expandedRowId]
+    )
+    const expandedIndex = useMemo(
+        () => (expandedRowId ? displayRows.findIndex((row) => row.id === expandedRowId) : -1),
+        [displayRows, expandedRowId]
+    )
+    const hiddenKeys = useMemo(
+        () => new Set(columnKeys.filter((key) => columnVisibility[key] === false)),
+        [columnKeys, columnVisibility]
+    )
+
     const handleDeleteSelectedRows = useCallback(() => {
         const selectedIds = new Set(
             table.getFilteredSelectedRowModel().rows.map((r) => r.id)
         )
-        setRows((prev) => prev.filter((row) => !selectedIds.has(String(row.id ?? ""))))
+        const trashed = trashRows(rows, selectedIds)
+        setRows(trashed.rows)
+        setTrash((prev) => [trashed.item, ...prev])
         setRowSelection({})
-    }, [table])
+        // Undo restores these rows, whatever else has changed since.
+        toast(`Moved ${selectedIds.size > 1 ? `${selectedIds.size} rows` : "row"} to the trash`, {
+            action: { label: "Undo", onClick: () => onRestoreTrash(tableId, trashed.item.id) },
+        })
+    }, [table, rows, setRows, setTrash, tableId, onRestoreTrash])
+
+    // Deleting for good also sweeps out row values no column owns, and view settings for
+    // columns that are gone for good rather than still restorable.
+    const handlePurgeTrash = useCallback((items: TrashItem[]) => {
+        const ids = new Set(items.map((i) => i.id))
+        const remaining = trash.filter((i) => !ids.has(i.id))
+        const keys = items.flatMap((item) => {
+            if (item.kind !== "column") return []
+            const key = item.column.key
+            const inUse = columnConfigs.some((c) => c.key === key) ||
+                remaining.some((i) => i.kind === "column" && i.column.key === key)
+            return inUse ? [] : [key]
+        })
+        setTrash(remaining)
+        setRows((prev) => removeOrphanedKeys(prev, columnConfigs))
+        if (keys.length > 0) setViews((prev) => prev.map((v) => keys.reduce(removeViewColumn, v)))
+    }, [trash, columnConfigs, setTrash, setRows, setViews])
 
     const selectedCount = table.getFilteredSelectedRowModel().rows.length
-    const totalCount = table.getFilteredRowModel().rows.length
+    const totalCount = filteredRows.length
 
     const dialogTitle = pendingAction?.type === "edit" ? "Edit column" : "New column"
 
+    // Dragging moves the column for the whole table, and in this view's own order if it has one,
+    // so the column always lands where it was dropped.
+    const handleColumnDrop = () => {
+        if (draggingColumn && columnDropTarget) {
+            const { key, side } = columnDropTarget
+            setColumnConfigs((prev) => moveColumn(prev, draggingColumn, key, side))
+            if (columnOrder.length > 0) {
+                const ordered = applyManualOrder(columnConfigs, columnOrder, (c) => c.key)
+                updateView("columnOrder", moveColumn(ordered, draggingColumn, key, side).map((c) => c.key))
+            }
+        }
+        setDraggingColumn(null)
+        setColumnDropTarget(null)
+    }
+
+    // Frozen cells stick at their column's offset, with a background to cover what scrolls beneath.
+    const getFrozenProps = (column: Column<Row>, background = "bg-background") => {
+        if (!column.getIsPinned()) return { className: "", style: {} }
+        const edge = column.getIsLastColumn("left") ? "shadow-[inset_-1px_0_0_var(--color-border)]" : ""
+        return { className: `sticky z-[1] ${background} ${edge}`, style: { left: column.getStart("left") } }
+    }
+
+    // Columns scrolled out of view render as one spacer per run, so the table keeps its width.
+    const renderColumnSlots = (
+        slots: VirtualSlot[],
+        renderColumn: (index: number) => React.ReactNode,
+        Gap: typeof TableCell | typeof TableHead = TableCell
+    ) =>
+        slots.map((slot) =>
+            slot.kind === "item"
+                ? renderColumn(slot.index)
+                : <Gap key={slot.key} aria-hidden className="p-0" style={{ width: slot.size }} />
+        )
+
+    const renderRow = (row: TableRowModel<Row>, index: number) => {
+        const cells = row.getVisibleCells()
+        return (
+            <TableRow
+                key={row.id}
+                ref={measureRow}
+                data-index={index}
+                data-state={row.getIsSelected() && "selected"}
+                className="group/row"
+            >
+                {renderColumnSlots(columnSlots, (i) => {
+                    const cell = cells[i]
+                    const isData = configsByKey.has(cell.column.id)
+                    const frozen = getFrozenProps(cell.column, "bg-background group-data-[state=selected]/row:bg-muted")
+                    return (
+                        <TableCell
+                            key={cell.id}
+                            {...(isData ? getCellProps(row.id, cell.column.id) : {})}
+                            className={`border-r last:border-r-0 hover:bg-muted/50 transition-colors p-1 outline-none ${frozen.className} ${isInRange(row.id, cell.column.id) ? "bg-primary/10" : ""} ${isActiveCell(row.id, cell.column.id) ? "ring-2 ring-inset ring-primary" : ""}`}
+                            style={{ width: cell.column.getSize(), ...frozen.style }}
+                        >
+                            {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                        </TableCell>
+                    )
+                })}
+                <TableCell className="w-10" />
+            </TableRow>
+        )
+    }
+
+    // The header's label spans the selection column and the first field; later fields show their aggregate.
+    const renderGroup = (group: RowGroup<TableRowModel<Row>>, index: number) => {
+        const collapsed = collapsedGroups.has(group.id)
+        return (
+            <TableRow key={`group:${group.id}`} ref={measureRow} data-index={index} className="bg-muted/40 hover:bg-muted/40">
+                <TableCell
+                    colSpan={2}
+                    // Matches the row's translucent muted background, but opaque for when it's frozen.
+                    className={`border-r p-1 ${frozenColumns > 0 ? "sticky left-0 z-[1] bg-[color-mix(in_oklab,var(--color-muted)_40%,var(--color-background))]" : ""}`}
+                >
+                    <button
+                        type="button"
+                        onClick={() => toggleGroup(group.id)}
+                        className="flex w-full items-center gap-1.5 text-left text-sm cursor-pointer"
+                        style={{ paddingLeft: group.depth * 16 }}
+                    >
+                        <ChevronRight className={`size-3.5 shrink-0 transition-transform ${collapsed ? "" : "rotate-90"}`} />
+                        <span className="text-xs text-muted-foreground shrink-0">{group.rule.key}</span>
+                        {group.color ? (
+                            <Badge className="text-white border-0 truncate" style={{ backgroundColor: group.color }}>
+                                {group.label}
+                            </Badge>
+                        ) : (
+                            <span className="truncate font-medium">{group.label}</span>
+                        )}
+                        <span className="text-xs text-muted-foreground shrink-0">{group.rows.length}</span>
+                    </button>
+                </TableCell>
+                {renderColumnSlots(columnSlots.slice(2), (i) => {
+                    const column = leafColumns[i]
+                    const config = configsByKey.get(column.id)
+                    return (
+                        <TableCell key={column.id} className="border-r last:border-r-0 p-1 text-sm text-muted-foreground">
+                            {config && hasAggregate(config.type) && (
+                                <span className="block truncate px-2">
+                                    {AGGREGATE_LABELS[aggregateModes[config.key] ?? "sum"].toUpperCase()}:{" "}
+                                    {formatCellValue(groupAggregates.get(group.id)?.get(config.key), config.type)}
+                                </span>
+                            )}
+                        </TableCell>
+                    )
+                })}
+                <TableCell className="w-10" />
+            </TableRow>
+        )
+    }
+
     return (
         <>
-            <div className="flex items-start">
-                <div className="overflow-hidden rounded-sm border">
-                    <Table style={{ width: table.getCenterTotalSize(), tableLayout: "fixed" }}>
-                        <TableHeader>
-                            {table.getHeaderGroups().map((headerGroup) => (
-                                <TableRow key={headerGroup.id}>
-                                    {headerGroup.headers.map((header) => (
-                                        <TableHead
-                                            key={header.id}
-                                            className="relative group border-r last:border-r-0"
-                                            style={{ width: header.getSize() }}
-                                        >
-                                            {header.isPlaceholder
-                                                ? null
-                                                : flexRender(
-                                                    header.column.columnDef.header,
-                                                    header.getContext()
-                                                )}
-                                            {header.column.getCanResize() && (
-                                                <div
-                                                    onDoubleClick={() => header.column.resetSize()}
-                                                    onMouseDown={header.getResizeHandler()}
-                                                    onTouchStart={header.getResizeHandler()}
-                                                    className={`absolute top-0 right-0 h-full w-1 cursor-col-resize select-none touch-none opacity-0 group-hover:opacity-100 bg-border ${header.column.getIsResizing() ? "opacity-100 bg-primary" : ""
-                                                        }`}
-                                                />
-                                            )}
-                                        </TableHead>
-                                    ))}
-                                </TableRow>
-                            ))}
-                        </TableHeader>
-                        <TableBody>
-                            {table.getRowModel().rows?.length ? (
-                                table.getRowModel().rows.map((row) => (
-                                    <TableRow
-                                        key={row.id}
-                                        data-state={row.getIsSelected() && "selected"}
-                                    >
-                                        {row.getVisibleCells().map((cell) => (
-                                            <TableCell
-                                                key={cell.id}
-                                                className="border-r last:border-r-0 hover:bg-muted/50 transition-colors p-1"
-                                                style={{ width: cell.column.getSize() }}
-                                            >
-                                                {flexRender(cell.column.columnDef.cell, cell.getContext())}
-                                            </TableCell>
+            <div className="flex flex-col gap-3">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                    <ViewTabs
+                        views={views}
+                        activeViewId={viewId}
+                        onSelect={setActiveViewId}
+                        onCreate={handleCreateView}
+                        onRename={handleRenameView}
+                        onDuplicate={handleDuplicateView}
+                        onDelete={handleDeleteView}
+                    />
+                    <div className="flex items-center gap-1">
+                        <FilterPanel
+                            columnConfigs={columnConfigs}
+                            filter={filter}
+                            onFilterChange={(next) => updateView("filter", next)}
+                        />
+                        <SortPanel
+                            columnConfigs={columnConfigs}
+                            sorting={sorting}
+                            onSortingChange={(next) => updateView("sorting", next)}
+                        />
+                        {activeView.type === "grid" && (
+                            <FieldsPanel
+                                columnConfigs={columnConfigs}
+                                columnVisibility={columnVisibility}
+                                columnOrder={columnOrder}
+                                onColumnVisibilityChange={(next) => updateView("columnVisibility", next)}
+                                onColumnOrderChange={(next) => updateView("columnOrder", next)}
+                            />
+                        )}
+                        {activeView.type === "grid" && (
+                            <GroupPanel
+                                columnConfigs={columnConfigs}
+                                grouping={grouping}
+                                onGroupingChange={(next) => updateView("grouping", next)}
+                            />
+                        )}
+                        <Button variant="ghost" size="sm" onClick={() => setImportOpen(true)}>
+                            <Upload />
+                            Import
+                        </Button>
+                        <ExportMenu
+                            name={findTable(tables, tableId)?.name ?? "Table"}
+                            columnConfigs={visibleColumnIds.map((id) => configsByKey.get(id)!)}
+                            rows={viewRows}
+                        />
+                        <TrashSheet
+                            tableId={tableId}
+                            trash={trash}
+                            onRestore={(item) => onRestoreTrash(tableId, item.id)}
+                            onDelete={(item) => handlePurgeTrash([item])}
+                            onEmpty={() => handlePurgeTrash(trash)}
+                        />
+                    </div>
+                </div>
+                {activeView.type === "board" && (
+                    <BoardView
+                        columnConfigs={columnConfigs}
+                        rows={viewRows}
+                        settings={activeView.board}
+                        onSettingsChange={(board) => updateView("board", board)}
+                        onCellChange={handleRowCellChange}
+                    />
+                )}
+                {activeView.type === "calendar" && (
+                    <CalendarView
+                        columnConfigs={columnConfigs}
+                        rows={viewRows}
+                        settings={activeView.calendar}
+                        onSettingsChange={(calendar) => updateView("calendar", calendar)}
+                        onCellChange={handleRowCellChange}
+                        onAddRow={handleAddRow}
+                    />
+                )}
+                {activeView.type === "gallery" && (
+                    <GalleryView
+                        columnConfigs={columnConfigs}
+                        rows={viewRows}
+                        settings={activeView.gallery}
+                        onSettingsChange={(gallery) => updateView("gallery", gallery)}
+                    />
+                )}
+                {activeView.type === "timeline" && (
+                    <TimelineView
+                        columnConfigs={columnConfigs}
+                        rows={viewRows}
+                        settings={activeView.timeline}
+                        onSettingsChange={(timeline) => updateView("timeline", timeline)}
+                        onCellChange={handleRowCellChange}
+                    />
+                )}
+                {activeView.type === "grid" && (
+                    <div className="flex items-start">
+                        <div
+                            {...gridProps}
+                            className={`min-w-0 overflow-hidden rounded-sm border ${isMultiCell ? "select-none" : ""}`}
+                        >
+                            <div
+                                ref={scrollRef}
+                                className="max-h-[70vh] overflow-auto scroll-pt-10 scroll-pb-10"
+                                // Cells scrolled into view clear the frozen columns as well as the header and footer.
+                                style={{ scrollPaddingLeft: table.getLeftTotalSize() }}
+                            >
+                                <table
+                                    data-slot="table"
+                                    className="caption-bottom text-sm"
+                                    style={{ width: table.getTotalSize(), tableLayout: "fixed" }}
+                                >
+                                    <TableHeader className="sticky top-0 z-10 bg-background shadow-[0_1px_0_var(--color-border)]">
+                                        {table.getHeaderGroups().map((headerGroup) => (
+                                            <TableRow key={headerGroup.id}>
+                                                {renderColumnSlots(columnSlots, (i) => {
+                                                    const header = headerGroup.headers[i]
+                                                    const key = header.column.id
+                                                    const isData = configsByKey.has(key)
+                                                    const frozen = getFrozenProps(header.column)
+                                                    const drop = columnDropTarget?.key === key && draggingColumn !== key
+                                                        ? columnDropTarget.side === "left"
+                                                            ? "shadow-[inset_2px_0_0_var(--color-primary)]"
+                                                            : "shadow-[inset_-2px_0_0_var(--color-primary)]"
+                                                        : ""
+                                                    return (
+                                                        <TableHead
+                                                            key={header.id}
+                                                            className={`group border-r last:border-r-0 ${frozen.className || "relative"} ${drop} ${draggingColumn === key ? "opacity-50" : ""}`}
+                                                            style={{ width: header.getSize(), ...frozen.style }}
+                                                            draggable={isData}
+                                                            onDragStart={(e) => {
+                                                                // Dragging the resize handle resizes instead.
+                                                                if ((e.target as HTMLElement).closest("[data-resize-handle]")) {
+                                                                    e.preventDefault()
+                                                                    return
+                                                                }
+                                                                e.dataTransfer.effectAllowed = "move"
+                                                                e.dataTransfer.setData("text/plain", key)
+                                                                setDraggingColumn(key)
+                                                            }}
+                                                            onDragEnd={() => {
+                                                                setDraggingColumn(null)
+                                                                setColumnDropTarget(null)
+                                                            }}
+                                                            onDragOver={(e) => {
+                                                                if (!draggingColumn || !isData) return
+                                                                e.preventDefault()
+                                                                const rect = e.currentTarget.getBoundingClientRect()
+                                                                const side = e.clientX < rect.left + rect.width / 2 ? "left" : "right"
+                                                                if (columnDropTarget?.key !== key || columnDropTarget.side !== side) {
+                                                                    setColumnDropTarget({ key, side })
+                                                                }
+                                                            }}
+                                                            onDrop={(e) => {
+                                                                e.preventDefault()
+                                                                handleColumnDrop()
+                                                            }}
+                                                        >
+                                                            {header.isPlaceholder
+                                                                ? null
+                                                                : flexRender(
+                                                                    header.column.columnDef.header,
+                                                                    header.getContext()
+                                                                )}
+                                                            {header.column.getCanResize() && (
+                                                                <div
+                                                                    data-resize-handle
+                                                                    onDoubleClick={() => header.column.resetSize()}
+                                                                    onMouseDown={header.getResizeHandler()}
+                                                                    onTouchStart={header.getResizeHandler()}
+                                                                    className={`absolute top-0 right-0 h-full w-1 cursor-col-resize select-none touch-none opacity-0 group-hover:opacity-100 bg-border ${header.column.getIsResizing() ? "opacity-100 bg-primary" : ""
+                                                                        }`}
+                                                                />
+                                                            )}
+                                                        </TableHead>
+                                                    )
+                                                }, TableHead)}
+                                            </TableRow>
                                         ))}
-                                        <TableCell className="w-10" />
-                                    </TableRow>
-                                ))
-                            ) : (
-                                <TableRow>
-                                    <TableCell colSpan={columns.length + 1} className="h-24 text-center">
-                                        No results.
-                                    </TableCell>
-                                </TableRow>
-                            )}
-                        </TableBody>
-                        <tfoot>
-                            <TableRow className="border-t">
-                                <TableCell className="p-1 border-r">
-                                    <button
-                                        type="button"
-                                        onClick={handleAddRow}
-                                        className="flex items-center justify-center text-sm text-muted-foreground hover:text-foreground transition-colors cursor-pointer px-2"
-                                    >
-                                        <Plus className="size-3.5" />
-                                    </button>
-                                </TableCell>
-                                {columnConfigs.map((config) => {
-                                    const isVisible = columnVisibility[config.key] !== false
-                                    if (!isVisible) return null
-
-                                    if (config.type === "number" || config.type === "currency") {
-                                        const mode = aggregateModes[config.key] ?? "sum"
-                                        const values = rows
-                                            .map((r) => Number(r[config.key]))
-                                            .filter((v) => !isNaN(v))
-                                        const result = computeAggregate(values, mode)
+                                    </TableHeader>
+                                    <TableBody>
+                                        {rowModel.rows.length ? (
+                                            rowSlots.map((slot) => {
+                                                if (slot.kind === "gap") {
+                                                    return (
+                                                        <tr key={slot.key} aria-hidden>
+                                                            <td colSpan={columnSlots.length + 1} className="p-0" style={{ height: slot.size }} />
+                                                        </tr>
+                                                    )
+                                                }
+                                                const item = bodyItems[slot.index]
+                                                return item.kind === "group"
+                                                    ? renderGroup(item.group, slot.index)
+                                                    : renderRow(item.row, slot.index)
+                                            })
+                                        ) : (
+                                            <TableRow>
+                                                <TableCell colSpan={columnSlots.length + 1} className="h-24 text-center">
+                                                    No results.
+                                                </TableCell>
+                                            </TableRow>
+                                        )}
+                                    </TableBody>
+                                    <tfoot className="sticky bottom-0 z-10 bg-background shadow-[0_-1px_0_var(--color-border)]">
+                                        <TableRow className="border-t">
+                                            {renderColumnSlots(columnSlots, (i) => {
+                                                const column = leafColumns[i]
+                                                const frozen = getFrozenProps(column)
+                                                if (i === 0) {
+                                                    return (
+                                                        <TableCell key={column.id} className={`p-1 border-r ${frozen.className}`} style={frozen.style}>
+                                                            <button
+                                                                type="button"
+                                                                onClick={() => handleAddRow()}
+                                                                className="flex items-center justify-center text-sm text-muted-foreground hover:text-foreground transition-colors cursor-pointer px-2"
+                                                            >
+                                                                <Plus className="size-3.5" />
+                                                            </button>
+                                                        </TableCell>
+                                                    )
+                                                }
+
+                                                const config = configsByKey.get(column.id)
+                                                if (config && hasAggregate(config.type)) {
+                                                    const mode = aggregateModes[config.key] ?? "sum"
+                                                    const result = footerAggregates.get(config.key)!
 
+                                                    return (
+                                                        <TableCell
+                                                            key={column.id}
+                                                            className={`border-r last:border-r-0 p-1 ${frozen.className}`}
+                                                            style={frozen.style}
+                                                        >
+                                                            <DropdownMenu>
+                                                                <DropdownMenuTrigger asChild>
+                                                                    <button
+                                                                        type="button"
+                                                                        className="flex items-center justify-between gap-1 w-full text-sm font-medium text-muted-foreground hover:text-foreground transition-colors cursor-pointer pr-2"
+                                                                    >
+                                                                        <span className="truncate">
+                                                                            {AGGREGATE_LABELS[mode].toUpperCase()}: {formatCellValue(result, config.type)}
+                                                                        </span>
+                                                                        <ChevronDown className="size-3 shrink-0" />
+                                                                    </button>
+                                                                </DropdownMenuTrigger>
+                                                                <DropdownMenuContent align="start">
+                                                                    {(Object.keys(AGGREGATE_LABELS) as AggregateMode[]).map((m) => (
+                                                                        <DropdownMenuItem
+                                                                            key={m}
+                                                                            onClick={() =>
+                                                                                updateView("aggregateModes", (prev) => ({
+                                                                                    ...prev,
+                                                                                    [config.key]: m,
+                                                                                }))
+                                                                            }
+                                                                        >
+                                                                            {AGGREGATE_LABELS[m]}
+                                                                        </DropdownMenuItem>
+                                                                    ))}
+                                                                </DropdownMenuContent>
+                                                            </DropdownMenu>
+                                                        </TableCell>
+                                                    )
+                                                }
+
+                                                return (
+                                                    <TableCell
+                                                        key={column.id}
+                                                        className={`border-r last:border-r-0 p-1 ${frozen.className}`}
+                                                        style={frozen.style}
+                                                    />
+                                                )
+                                            })}
+                                        </TableRow>
+                                    </tfoot>
+                                </table>
+                            </div>
+                            {selectedCount > 0 && (
+                                <div className="flex items-center justify-between border-t px-3 py-1.5">
+                                    <span className="text-sm text-muted-foreground">
+                                        {selectedCount} of {totalCount} row(s) selected
+                                    </span>
+                                    <Button
+                                        variant="destructive"
+                                        size="sm"
+                                        onClick={handleDeleteSelectedRows}
+                                    >
+                                        <Trash2 />
+                                        Delete {selectedCount > 1 ? `${selectedCount} rows` : "row"}
+                                    </Button>
+                                </div>
+                            )}
+                        </div>
+                        <div className="flex h-10 items-center mt-px ml-2">
+                            <DropdownMenu>
+                                <DropdownMenuTrigger asChild>
+                                    <Button variant="ghost" size="icon-xs">
+                                        <Plus />
+                                        <span className="sr-only">Add column</span>
+                                    </Button>
+                                </DropdownMenuTrigger>
+                                <DropdownMenuContent align="end">
+                                    {COLUMN_TYPES.map((t) => {
+                                        const Icon = typeIcons[t]
                                         return (
-                                            <TableCell
-                                                key={config.key}
-                                                className="border-r last:border-r-0 p-1"
+                                            <DropdownMenuItem
+                                                key={t}
+                                                onClick={() => handleQuickAdd(t)}
                                             >
-                                                <DropdownMenu>
-                                                    <DropdownMenuTrigger asChild>
-                                                        <button
-                                                            type="button"
-                                                            className="flex items-center justify-between gap-1 w-full text-sm font-medium text-muted-foreground hover:text-foreground transition-colors cursor-pointer pr-2"
-                                                        >
-                                                            <span className="truncate">
-                                                                {AGGREGATE_LABELS[mode].toUpperCase()}: {formatCellValue(result, config.type)}
-                                                            </span>
-                                                            <ChevronDown className="size-3 shrink-0" />
-                                                        </button>
-                                                    </DropdownMenuTrigger>
-                                                    <DropdownMenuContent align="start">
-                                                        {(Object.keys(AGGREGATE_LABELS) as AggregateMode[]).map((m) => (
-                                                            <DropdownMenuItem
-                                                                key={m}
-                                                                onClick={() =>
-                                                                    setAggregateModes((prev) => ({
-                                                                        ...prev,
-                                                                        [config.key]: m,
-                                                                    }))
-                                                                }
-                                                            >
-                                                                {AGGREGATE_LABELS[m]}
-                                                            </DropdownMenuItem>
-                                                        ))}
-                                                    </DropdownMenuContent>
-                                                </DropdownMenu>
-                                            </TableCell>
+                                                <Icon />
+                                                {COLUMN_TYPE_LABELS[t]}
+                                            </DropdownMenuItem>
                                         )
-                                    }
-
-                                    return (
-                                        <TableCell
-                                            key={config.key}
-                                            className="border-r last:border-r-0 p-1"
-                                        />
-                                    )
-                                })}
-                            </TableRow>
-                        </tfoot>
-                    </Table>
-                    {selectedCount > 0 && (
-                        <div className="flex items-center justify-between border-t px-3 py-1.5">
-                            <span className="text-sm text-muted-foreground">
-                                {selectedCount} of {totalCount} row(s) selected
-                            </span>
-                            <Button
-                                variant="destructive"
-                                size="sm"
-                                onClick={handleDeleteSelectedRows}
-                            >
-                                <Trash2 />
-                                Delete {selectedCount > 1 ? `${selectedCount} rows` : "row"}
-                            </Button>
+                                    })}
+                                </DropdownMenuContent>
+                            </DropdownMenu>
                         </div>
-                    )}
-                </div>
-                <div className="flex h-10 items-center mt-px ml-2">
-                    <DropdownMenu>
-                        <DropdownMenuTrigger asChild>
-                            <Button variant="ghost" size="icon-xs">
-                                <Plus />
-                                <span className="sr-only">Add column</span>
-                            </Button>
-                        </DropdownMenuTrigger>
-                        <DropdownMenuContent align="end">
-                            {COLUMN_TYPES.map((t) => {
-                                const Icon = typeIcons[t]
-                                return (
-                                    <DropdownMenuItem
-                                        key={t}
-                                        onClick={() => handleQuickAdd(t)}
-                                    >
-                                        <Icon />
-                                        {COLUMN_TYPE_LABELS[t]}
-                                    </DropdownMenuItem>
-                                )
-                            })}
-                        </DropdownMenuContent>
-                    </DropdownMenu>
-                </div>
+                    </div>
+                )}
             </div>
 
             <Dialog open={pendingAction !== null} onOpenChange={(open) => { if (!open) closeDialog() }}>
@@ -528,7 +1251,117 @@ export const DataTable = ({ initialColumns, data }: DataTableProps) => {
                                 </SelectContent>
                             </Select>
                         </div>
-                        {dialogType === "select" && (
+                        {dialogType === "formula" && (
+                            <div className="flex flex-col gap-1.5">
+                                <Label htmlFor="dialog-col-formula">Formula</Label>
+                                <Input
+                                    id="dialog-col-formula"
+                                    className="font-mono"
+                                    placeholder={'IF({status} = "paid", {amount}, 0)'}
+                                    value={dialogFormula}
+                                    onChange={(e) => setDialogFormula(e.target.value)}
+                                />
+                                {dialogFormula.trim() && dialogFormulaError ? (
+                                    <p className="text-xs text-destructive">
+                                        {dialogFormulaError.code} {dialogFormulaError.message}
+                                    </p>
+                                ) : (
+                                    <p className="text-xs text-muted-foreground">
+                                        Reference other columns with {"{name}"}, e.g. {"{amount} * 1.2"}.
+                                    </p>
+                                )}
+                            </div>
+                        )}
+                        {dialogType === "link" && (
+                            <div className="flex flex-col gap-1.5">
+                                <Label>Linked table</Label>
+                                <Select value={dialogLinkTableId} onValueChange={setDialogLinkTableId}>
+                                    <SelectTrigger className="w-full">
+                                        <SelectValue placeholder="Choose a table" />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {tables.map((t) => (
+                                            <SelectItem key={t.id} value={t.id}>
+                                                {t.name}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                                <Label className="font-normal">
+                                    <Checkbox
+                                        checked={dialogLinkMultiple}
+                                        onCheckedChange={(checked) => setDialogLinkMultiple(Boolean(checked))}
+                                    />
+                                    Allow linking to multiple records
+                                </Label>
+                            </div>
+                        )}
+                        {(dialogType === "lookup" || dialogType === "rollup") && (
+                            <div className="flex flex-col gap-3">
+                                <div className="flex flex-col gap-1.5">
+                                    <Label>Link column</Label>
+                                    <Select
+                                        value={dialogLookup.linkKey}
+                                        onValueChange={(v) => setDialogLookup((prev) => ({ ...prev, linkKey: v, field: "" }))}
+                                    >
+                                        <SelectTrigger className="w-full">
+                                            <SelectValue placeholder="Choose a link column" />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {columnConfigs
+                                                .filter((c) => c.type === "link")
+                                                .map((c) => (
+                                                    <SelectItem key={c.key} value={c.key}>
+                                                        {c.key}
+                                                    </SelectItem>
+                                                ))}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                                <div className="flex flex-col gap-1.5">
+                                    <Label>Field</Label>
+                                    <Select
+                                        value={dialogLookup.field}
+                                        onValueChange={(v) => setDialogLookup((prev) => ({ ...prev, field: v }))}
+                                        disabled={!dialogLookupTable}
+                                    >
+                                        <SelectTrigger className="w-full">
+                                            <SelectValue placeholder="Choose a field" />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {dialogLookupTable?.columns.map((c) => (
+                                                <SelectItem key={c.key} value={c.key}>
+                                                    {c.key}
+                                                </SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                                {dialogType === "rollup" && (
+                                    <div className="flex flex-col gap-1.5">
+                                        <Label>Aggregate</Label>
+                                        <Select
+                                            value={dialogLookup.aggregate ?? "sum"}
+                                            onValueChange={(v) =>
+                                                setDialogLookup((prev) => ({ ...prev, aggregate: v as RollupFunction }))
+                                            }
+                                        >
+                                            <SelectTrigger className="w-full">
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                {(Object.keys(ROLLUP_LABELS) as RollupFunction[]).map((fn) => (
+                                                    <SelectItem key={fn} value={fn}>
+                                                        {ROLLUP_LABELS[fn]}
+                                                    </SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                    </div>
+                                )}
+                            </div>
+                        )}
+                        {hasOptions(dialogType) && (
                             <div className="flex flex-col gap-1.5">
                                 <Label>Options</Label>
                                 {dialogOptions.length > 0 && (
@@ -617,17 +1450,89 @@ export const DataTable = ({ initialColumns, data }: DataTableProps) => {
                                 </div>
                             </div>
                         )}
+                        {columnConversion && (
+                            <div className="flex flex-col gap-2 rounded-md border p-3 text-sm">
+                                <p>
+                                    {columnConversion.converted} value{columnConversion.converted === 1 ? "" : "s"} will
+                                    convert
+                                    {columnConversion.lost.length > 0 ? (
+                                        <span className="text-destructive">
+                                            {" "}and {columnConversion.lost.length} will be cleared
+                                        </span>
+                                    ) : (
+                                        " cleanly"
+                                    )}
+                                    .
+                                </p>
+                                {columnConversion.lost.length > 0 && (
+                                    <div className="flex flex-wrap gap-1">
+                                        {columnConversion.lost.slice(0, MAX_PREVIEWED_VALUES).map((value) => (
+                                            <Badge key={value.rowId} variant="outline" className="max-w-40 truncate font-mono">
+                                                {value.text}
+                                            </Badge>
+                                        ))}
+                                        {columnConversion.lost.length > MAX_PREVIEWED_VALUES && (
+                                            <span className="text-xs text-muted-foreground">
+                                                +{columnConversion.lost.length - MAX_PREVIEWED_VALUES} more
+                                            </span>
+                                        )}
+                                    </div>
+                                )}
+                                {columnConversion.createdOptions.length > 0 && (
+                                    <p className="text-muted-foreground">
+                                        Adds {columnConversion.createdOptions.length} option
+                                        {columnConversion.createdOptions.length === 1 ? "" : "s"}:{" "}
+                                        {columnConversion.createdOptions.slice(0, MAX_PREVIEWED_VALUES).join(", ")}
+                                        {columnConversion.createdOptions.length > MAX_PREVIEWED_VALUES && ", …"}
+                                    </p>
+                                )}
+                            </div>
+                        )}
                         <DialogFooter>
                             <Button type="button" variant="outline" onClick={closeDialog}>
                                 Cancel
                             </Button>
-                            <Button type="submit" disabled={!dialogInput.trim()}>
-                                {pendingAction?.type === "edit" ? "Save" : "Add"}
+                            <Button
+                                type="submit"
+                                variant={columnConversion?.lost.length ? "destructive" : "default"}
+                                disabled={
+                                    !dialogInput.trim() ||
+                                    dialogFormulaError !== null ||
+                                    (dialogType === "link" && !dialogLinkTableId) ||
+                                    ((dialogType === "lookup" || dialogType === "rollup") &&
+                                        (!dialogLookup.linkKey || !dialogLookup.field))
+                                }
+                            >
+                                {pendingAction?.type !== "edit"
+                                    ? "Add"
+                                    : columnConversion?.lost.length
+                                        ? `Convert and clear ${columnConversion.lost.length}`
+                                        : "Save"}
                             </Button>
                         </DialogFooter>
                     </form>
                 </DialogContent>
             </Dialog>
+            <ImportDialog
+                open={importOpen}
+                onOpenChange={setImportOpen}
+                columnConfigs={columnConfigs}
+                onImport={handleImport}
+            />
+            <RowDetail
+                tableId={tableId}
+                columnConfigs={columnConfigs}
+                row={expandedRow}
+                index={expandedIndex}
+                count={displayRows.length}
+                hiddenKeys={hiddenKeys}
+                onNavigate={(offset) => setExpandedRowId(displayRows[expandedIndex + offset].id)}
+                onClose={() => setExpandedRowId(null)}
+                onCellChange={(key, value) => {
+                    if (expandedRowId) handleRowCellChange(expandedRowId, key, value)
+                }}
+                onCreateOption={columnActions.onCreateOption}
+            />
         </>
     )
 }
@@ -0,0 +1,79 @@
+"use client"
+
+import { useState } from "react"
+import { Download } from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuLabel,
+    DropdownMenuRadioGroup,
+    DropdownMenuRadioItem,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { type Row } from "@/components/columns"
+import { type ColumnConfig } from "@/lib/column-types"
+import {
+    type ExportValueMode,
+    EXPORT_FORMATS,
+    EXPORT_FORMAT_LABELS,
+    downloadExport,
+} from "@/lib/export"
+import { useTables } from "@/hooks/use-tables"
+
+interface ExportMenuProps {
+    /** Used as the file name. */
+    name: string
+    /** The visible columns, in display order. */
+    columnConfigs: ColumnConfig[]
+    /** The filtered, sorted rows of the view. */
+    rows: Row[]
+}
+
+export const ExportMenu = ({ name, columnConfigs, rows }: ExportMenuProps) => {
+    const tables = useTables()
+    const [mode, setMode] = useState<ExportValueMode>("formatted")
+
+    return (
+        <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="sm">
+                    <Download />
+                    Export
+                </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+                <DropdownMenuLabel>
+                    {rows.length} row{rows.length === 1 ? "" : "s"}, {columnConfigs.length} column
+                    {columnConfigs.length === 1 ? "" : "s"}
+                </DropdownMenuLabel>
+                {EXPORT_FORMATS.map((format) => (
+                    <DropdownMenuItem
+                        key={format}
+                        onClick={() =>
+                            downloadExport(format, { name, columns: columnConfigs, rows, mode, tables }).catch(() =>
+                                toast.error(`Couldn't export as ${EXPORT_FORMAT_LABELS[format]}.`)
+                            )
+                        }
+                    >
+                        {EXPORT_FORMAT_LABELS[format]}
+                    </DropdownMenuItem>
+                ))}
+                <DropdownMenuSeparator />
+                <DropdownMenuLabel>Values</DropdownMenuLabel>
+                <DropdownMenuRadioGroup value={mode} onValueChange={(v) => setMode(v as ExportValueMode)}>
+                    <DropdownMenuRadioItem value="formatted" onSelect={(e) => e.preventDefault()}>
+                        As displayed
+                    </DropdownMenuRadioItem>
+                    <DropdownMenuRadioItem value="raw" onSelect={(e) => e.preventDefault()}>
+                        Raw
+                    </DropdownMenuRadioItem>
+                </DropdownMenuRadioGroup>
+            </DropdownMenuContent>
+        </DropdownMenu>
+    )
+}
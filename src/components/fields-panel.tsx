@@ -0,0 +1,131 @@
+"use client"
+
+import { useState } from "react"
+import type { VisibilityState } from "@tanstack/react-table"
+import { Columns3, GripVertical } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Switch } from "@/components/ui/switch"
+import { typeIcons } from "@/components/columns"
+import { type ColumnConfig } from "@/lib/column-types"
+import { applyManualOrder, moveInOrder } from "@/lib/views"
+import { cn } from "@/lib/utils"
+
+interface FieldsPanelProps {
+    /** The table's columns, in table order. */
+    columnConfigs: ColumnConfig[]
+    columnVisibility: VisibilityState
+    /** The view's own column order; columns it doesn't list follow in table order. */
+    columnOrder: string[]
+    onColumnVisibilityChange: (visibility: VisibilityState) => void
+    onColumnOrderChange: (order: string[]) => void
+}
+
+export const FieldsPanel = ({
+    columnConfigs,
+    columnVisibility,
+    columnOrder,
+    onColumnVisibilityChange,
+    onColumnOrderChange,
+}: FieldsPanelProps) => {
+    const [draggingKey, setDraggingKey] = useState<string | null>(null)
+    const [dropKey, setDropKey] = useState<string | null>(null)
+
+    const fields = applyManualOrder(columnConfigs, columnOrder, (c) => c.key)
+    const keys = fields.map((c) => c.key)
+    const hiddenCount = fields.filter((c) => columnVisibility[c.key] === false).length
+
+    const handleDrop = (beforeKey: string | null) => {
+        if (draggingKey && draggingKey !== beforeKey) onColumnOrderChange(moveInOrder(keys, draggingKey, beforeKey))
+        setDraggingKey(null)
+        setDropKey(null)
+    }
+
+    return (
+        <Popover>
+            <PopoverTrigger asChild>
+                <Button variant={hiddenCount > 0 ? "secondary" : "ghost"} size="sm">
+                    <Columns3 />
+                    {hiddenCount > 0 ? `${hiddenCount} hidden field${hiddenCount > 1 ? "s" : ""}` : "Fields"}
+                </Button>
+            </PopoverTrigger>
+            <PopoverContent align="start" className="w-72">
+                <div className="flex flex-col gap-1">
+                    <p className="mb-1 text-sm text-muted-foreground">
+                        Hiding or reordering fields here only changes this view.
+                    </p>
+                    {fields.map((config, i) => {
+                        const Icon = typeIcons[config.type]
+                        return (
+                            <div
+                                key={config.key}
+                                className={cn(
+                                    "flex items-center gap-1.5 rounded-md py-0.5",
+                                    draggingKey === config.key && "opacity-50",
+                                    dropKey === config.key && draggingKey !== config.key && "ring-2 ring-primary/40"
+                                )}
+                                onDragOver={(e) => {
+                                    if (!draggingKey) return
+                                    e.preventDefault()
+                                    setDropKey(config.key)
+                                }}
+                                onDrop={(e) => {
+                                    e.preventDefault()
+                                    // Dropping on a lower field places the dragged one after it.
+                                    const from = keys.indexOf(draggingKey ?? "")
+                                    handleDrop(from < i ? (keys[i + 1] ?? null) : config.key)
+                                }}
+                            >
+                                <span
+                                    draggable
+                                    className="cursor-grab text-muted-foreground"
+                                    onDragStart={(e) => {
+                                        e.dataTransfer.effectAllowed = "move"
+                                        e.dataTransfer.setData("text/plain", config.key)
+                                        setDraggingKey(config.key)
+                                    }}
+                                    onDragEnd={() => {
+                                        setDraggingKey(null)
+                                        setDropKey(null)
+                                    }}
+                                >
+                                    <GripVertical className="size-4" />
+                                    <span className="sr-only">Drag to reorder</span>
+                                </span>
+                                <Icon className="size-3.5 shrink-0 text-muted-foreground" />
+                                <span className="min-w-0 flex-1 truncate text-sm">{config.key}</span>
+                                <Switch
+                                    size="sm"
+                                    checked={columnVisibility[config.key] !== false}
+                                    onCheckedChange={(checked) =>
+                                        onColumnVisibilityChange({ ...columnVisibility, [config.key]: checked })
+                                    }
+                                    aria-label={`Show ${config.key}`}
+                                />
+                            </div>
+                        )
+                    })}
+                    <div className="mt-1 flex gap-1">
+                        <Button
+                            variant="ghost"
+                            size="xs"
+                            disabled={hiddenCount === 0}
+                            onClick={() => onColumnVisibilityChange({})}
+                        >
+                            Show all
+                        </Button>
+                        <Button
+                            variant="ghost"
+                            size="xs"
+                            disabled={columnOrder.length === 0}
+                            onClick={() => onColumnOrderChange([])}
+                        >
+                            Use table order
+                        </Button>
+                    </div>
+                </div>
+            </PopoverContent>
+        </Popover>
+    )
+}
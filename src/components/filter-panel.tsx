@@ -0,0 +1,376 @@
+"use client"
+
+import { ListFilter, Plus, X } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import {
+    DropdownMenu,
+    DropdownMenuCheckboxItem,
+    DropdownMenuContent,
+    DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select"
+import { type ColumnConfig, toOptionLabels } from "@/lib/column-types"
+import {
+    type FilterCondition,
+    type FilterConjunction,
+    type FilterGroup,
+    type FilterNode,
+    type FilterOperator,
+    FILTER_OPERATOR_LABELS,
+    countFilterConditions,
+    createFilterCondition,
+    createFilterGroup,
+    getFilterOperators,
+    isUnaryOperator,
+    updateFilterNode,
+} from "@/lib/filters"
+import { cn } from "@/lib/utils"
+
+interface FilterPanelProps {
+    columnConfigs: ColumnConfig[]
+    filter: FilterGroup
+    onFilterChange: (filter: FilterGroup) => void
+}
+
+type UpdateNode = (id: string, update: (node: FilterNode) => FilterNode | null) => void
+
+type ValueKind = "none" | "text" | "number" | "range" | "date" | "days" | "options"
+
+/** Groups can nest this deep below the top-level group. */
+const MAX_GROUP_DEPTH = 2
+
+const CONJUNCTION_LABELS: Record<FilterConjunction, string> = {
+    and: "and",
+    or: "or",
+}
+
+const getValueKind = (operator: FilterOperator): ValueKind => {
+    if (isUnaryOperator(operator)) return "none"
+    switch (operator) {
+        case "between":
+            return "range"
+        case "on":
+        case "before":
+        case "after":
+            return "date"
+        case "within_last_days":
+            return "days"
+        case "is_any_of":
+        case "is_none_of":
+        case "has_all_of":
+            return "options"
+        case "eq":
+        case "neq":
+        case "gt":
+        case "gte":
+        case "lt":
+        case "lte":
+            return "number"
+        default:
+            return "text"
+    }
+}
+
+const inputClassName = "h-8 w-40"
+
+const FilterValueInput = ({
+    condition,
+    config,
+    onChange,
+}: {
+    condition: FilterCondition
+    config: ColumnConfig
+    onChange: (value: unknown) => void
+}) => {
+    const { value } = condition
+
+    switch (getValueKind(condition.operator)) {
+        case "none":
+            return null
+        case "range": {
+            const [min, max] = Array.isArray(value) ? value : ["", ""]
+            return (
+                <div className="flex items-center gap-1">
+                    <Input
+                        type="number"
+                        className="h-8 w-[4.75rem]"
+                        placeholder="Min"
+                        value={String(min ?? "")}
+                        onChange={(e) => onChange([e.target.value, max])}
+                    />
+                    <Input
+                        type="number"
+                        className="h-8 w-[4.75rem]"
+                        placeholder="Max"
+                        value={String(max ?? "")}
+                        onChange={(e) => onChange([min, e.target.value])}
+                    />
+                </div>
+            )
+        }
+        case "days":
+            return (
+                <div className="flex w-40 items-center gap-1.5 text-sm text-muted-foreground">
+                    <Input
+                        type="number"
+                        min={0}
+                        className="h-8 w-20"
+                        value={String(value ?? "")}
+                        onChange={(e) => onChange(e.target.value)}
+                    />
+                    days
+                </div>
+            )
+        case "options": {
+            const selected = toOptionLabels(value)
+            return (
+                <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                        <Button variant="outline" size="sm" className="w-40 justify-start font-normal">
+                            <span className={cn("truncate", selected.length === 0 && "text-muted-foreground")}>
+                                {selected.length > 0 ? selected.join(", ") : "Select options"}
+                            </span>
+                        </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="start">
+                        {(config.options ?? []).map((option) => (
+                            <DropdownMenuCheckboxItem
+                                key={option.label}
+                                checked={selected.includes(option.label)}
+                                onCheckedChange={(checked) =>
+                                    onChange(
+                                        checked
+                                            ? [...selected, option.label]
+                                            : selected.filter((l) => l !== option.label)
+                                    )
+                                }
+                                onSelect={(e) => e.preventDefault()}
+                            >
+                                <span
+                                    className="size-2.5 rounded-full shrink-0"
+                                    style={{ backgroundColor: option.color }}
+                                />
+                                {option.label}
+                            </DropdownMenuCheckboxItem>
+                        ))}
+                    </DropdownMenuContent>
+                </DropdownMenu>
+            )
+        }
+        default: {
+            const kind = getValueKind(condition.operator)
+            return (
+                <Input
+                    type={kind}
+                    className={inputClassName}
+                    placeholder={kind === "date" ? undefined : "Enter a value"}
+                    value={String(value ?? "")}
+                    onChange={(e) => onChange(e.target.value)}
+                />
+            )
+        }
+    }
+}
+
+const ConditionEditor = ({
+    condition,
+    columnConfigs,
+    onUpdate,
+}: {
+    condition: FilterCondition
+    columnConfigs: ColumnConfig[]
+    onUpdate: UpdateNode
+}) => {
+    const config = columnConfigs.find((c) => c.key === condition.columnKey)
+    const update = (patch: Partial<FilterCondition>) =>
+        onUpdate(condition.id, (node) => ({ ...node, ...patch }) as FilterCondition)
+
+    return (
+        <div className="flex items-center gap-1.5">
+            <Select
+                value={config ? condition.columnKey : ""}
+                onValueChange={(key) => {
+                    const next = columnConfigs.find((c) => c.key === key)
+                    if (next) onUpdate(condition.id, () => ({ ...createFilterCondition(next), id: condition.id }))
+                }}
+            >
+                <SelectTrigger size="sm" className="w-36">
+                    <SelectValue placeholder="Column" />
+                </SelectTrigger>
+                <SelectContent>
+                    {columnConfigs.map((c) => (
+                        <SelectItem key={c.key} value={c.key}>
+                            {c.key}
+                        </SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+            {config && (
+                <>
+                    <Select
+                        value={condition.operator}
+                        onValueChange={(v) => {
+                            const operator = v as FilterOperator
+                            // Keep the value when it still fits, e.g. switching between > and <.
+                            const sameKind = getValueKind(operator) === getValueKind(condition.operator)
+                            update({ operator, value: sameKind ? condition.value : undefined })
+                        }}
+                    >
+                        <SelectTrigger size="sm" className="w-36">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {getFilterOperators(config.type).map((op) => (
+                                <SelectItem key={op} value={op}>
+                                    {FILTER_OPERATOR_LABELS[op]}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    <FilterValueInput
+                        condition={condition}
+                        config={config}
+                        onChange={(value) => update({ value })}
+                    />
+                </>
+            )}
+            <Button variant="ghost" size="icon-xs" className="ml-auto" onClick={() => onUpdate(condition.id, () => null)}>
+                <X />
+                <span className="sr-only">Remove condition</span>
+            </Button>
+        </div>
+    )
+}
+
+const FilterGroupEditor = ({
+    group,
+    depth,
+    columnConfigs,
+    onUpdate,
+}: {
+    group: FilterGroup
+    depth: number
+    columnConfigs: ColumnConfig[]
+    onUpdate: UpdateNode
+}) => {
+    const addChild = (child: FilterNode) =>
+        onUpdate(group.id, (node) => ({ ...(node as FilterGroup), children: [...group.children, child] }))
+
+    return (
+        <div className="flex flex-col gap-2">
+            {group.children.length === 0 && depth === 0 && (
+                <p className="text-sm text-muted-foreground">No filter conditions are applied to this view.</p>
+            )}
+            {group.children.map((child, i) => (
+                <div key={child.id} className="flex items-start gap-1.5">
+                    <div className="flex h-8 w-16 shrink-0 items-center text-sm text-muted-foreground">
+                        {i === 0 && "Where"}
+                        {i === 1 && (
+                            <Select
+                                value={group.conjunction}
+                                onValueChange={(v) =>
+                                    onUpdate(group.id, (node) => ({ ...(node as FilterGroup), conjunction: v as FilterConjunction }))
+                                }
+                            >
+                                <SelectTrigger size="sm" className="w-16">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {(Object.keys(CONJUNCTION_LABELS) as FilterConjunction[]).map((c) => (
+                                        <SelectItem key={c} value={c}>
+                                            {CONJUNCTION_LABELS[c]}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        )}
+                        {i > 1 && <span className="pl-2">{CONJUNCTION_LABELS[group.conjunction]}</span>}
+                    </div>
+                    <div className="flex-1">
+                        {child.kind === "condition" ? (
+                            <ConditionEditor condition={child} columnConfigs={columnConfigs} onUpdate={onUpdate} />
+                        ) : (
+                            <div className="flex flex-col gap-2 rounded-md border bg-muted/30 p-2">
+                                <FilterGroupEditor
+                                    group={child}
+                                    depth={depth + 1}
+                                    columnConfigs={columnConfigs}
+                                    onUpdate={onUpdate}
+                                />
+                                <Button
+                                    variant="ghost"
+                                    size="xs"
+                                    className="self-start text-muted-foreground"
+                                    onClick={() => onUpdate(child.id, () => null)}
+                                >
+                                    <X />
+                                    Remove group
+                                </Button>
+                            </div>
+                        )}
+                    </div>
+                </div>
+            ))}
+            <div className="flex items-center gap-1">
+                <Button
+                    variant="ghost"
+                    size="xs"
+                    disabled={columnConfigs.length === 0}
+                    onClick={() => addChild(createFilterCondition(columnConfigs[0]))}
+                >
+                    <Plus />
+                    Add condition
+                </Button>
+                {depth < MAX_GROUP_DEPTH && (
+                    <Button
+                        variant="ghost"
+                        size="xs"
+                        disabled={columnConfigs.length === 0}
+                        onClick={() => {
+                            const nested = createFilterGroup(group.conjunction === "and" ? "or" : "and")
+                            addChild({ ...nested, children: [createFilterCondition(columnConfigs[0])] })
+                        }}
+                    >
+                        <Plus />
+                        Add condition group
+                    </Button>
+                )}
+            </div>
+        </div>
+    )
+}
+
+export const FilterPanel = ({ columnConfigs, filter, onFilterChange }: FilterPanelProps) => {
+    const count = countFilterConditions(filter)
+
+    const handleUpdate: UpdateNode = (id, update) => {
+        if (id === filter.id) {
+            onFilterChange(update(filter) as FilterGroup)
+            return
+        }
+        onFilterChange(updateFilterNode(filter, id, update))
+    }
+
+    return (
+        <Popover>
+            <PopoverTrigger asChild>
+                <Button variant={count > 0 ? "secondary" : "ghost"} size="sm">
+                    <ListFilter />
+                    {count > 0 ? `Filtered by ${count} condition${count > 1 ? "s" : ""}` : "Filter"}
+                </Button>
+            </PopoverTrigger>
+            <PopoverContent align="start" className="w-auto min-w-md">
+                <FilterGroupEditor group={filter} depth={0} columnConfigs={columnConfigs} onUpdate={handleUpdate} />
+            </PopoverContent>
+        </Popover>
+    )
+}
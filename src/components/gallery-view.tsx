@@ -0,0 +1,170 @@
+"use client"
+
+import { Eye, ImageIcon } from "lucide-react"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+    DropdownMenu,
+    DropdownMenuCheckboxItem,
+    DropdownMenuContent,
+    DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select"
+import { type Row } from "@/components/columns"
+import { type ColumnConfig, formatCellValue, hasOptions, toOptionLabels } from "@/lib/column-types"
+import { getRowId } from "@/lib/base"
+import { type GallerySettings } from "@/lib/views"
+
+interface GalleryViewProps {
+    columnConfigs: ColumnConfig[]
+    rows: Row[]
+    settings: GallerySettings
+    onSettingsChange: (settings: GallerySettings) => void
+}
+
+const NO_COVER = "none"
+
+const DEFAULT_FIELD_COUNT = 3
+
+const FieldValue = ({ config, value }: { config: ColumnConfig; value: unknown }) => {
+    if (hasOptions(config.type)) {
+        const labels = toOptionLabels(value)
+        if (labels.length === 0) return null
+        return (
+            <div className="flex flex-wrap gap-1">
+                {labels.map((label) => (
+                    <Badge
+                        key={label}
+                        className="text-white border-0"
+                        style={{ backgroundColor: config.options?.find((o) => o.label === label)?.color }}
+                    >
+                        {label}
+                    </Badge>
+                ))}
+            </div>
+        )
+    }
+    if (config.type === "checkbox") return <span>{value ? "Yes" : "No"}</span>
+    const text = formatCellValue(value, config.type)
+    return text ? <span className="truncate">{text}</span> : null
+}
+
+export const GalleryView = ({ columnConfigs, rows, settings, onSettingsChange }: GalleryViewProps) => {
+    const titleConfig = columnConfigs.find((c) => c.key === settings.titleKey) ?? columnConfigs[0]
+    const coverColumns = columnConfigs.filter((c) => c.type === "url")
+    const coverConfig = coverColumns.find((c) => c.key === settings.coverKey)
+    const fieldColumns = columnConfigs.filter((c) => c.key !== titleConfig?.key && c.key !== coverConfig?.key)
+    const fieldKeys = settings.fields ?? fieldColumns.slice(0, DEFAULT_FIELD_COUNT).map((c) => c.key)
+    const cardFields = fieldColumns.filter((c) => fieldKeys.includes(c.key))
+
+    const toggleField = (key: string, visible: boolean) => {
+        onSettingsChange({
+            ...settings,
+            fields: visible ? [...fieldKeys, key] : fieldKeys.filter((k) => k !== key),
+        })
+    }
+
+    return (
+        <div className="flex flex-col gap-3">
+            <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                Title
+                <Select
+                    value={titleConfig?.key ?? ""}
+                    onValueChange={(titleKey) => onSettingsChange({ ...settings, titleKey })}
+                >
+                    <SelectTrigger size="sm" className="w-40">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {columnConfigs.map((c) => (
+                            <SelectItem key={c.key} value={c.key}>
+                                {c.key}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+                Cover
+                <Select
+                    value={coverConfig?.key ?? NO_COVER}
+                    onValueChange={(v) => onSettingsChange({ ...settings, coverKey: v === NO_COVER ? undefined : v })}
+                >
+                    <SelectTrigger size="sm" className="w-40">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value={NO_COVER}>No cover</SelectItem>
+                        {coverColumns.map((c) => (
+                            <SelectItem key={c.key} value={c.key}>
+                                {c.key}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+                <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                        <Button variant="outline" size="sm">
+                            <Eye />
+                            Fields
+                        </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="start">
+                        {fieldColumns.map((c) => (
+                            <DropdownMenuCheckboxItem
+                                key={c.key}
+                                checked={fieldKeys.includes(c.key)}
+                                onCheckedChange={(checked) => toggleField(c.key, checked)}
+                                onSelect={(e) => e.preventDefault()}
+                            >
+                                {c.key}
+                            </DropdownMenuCheckboxItem>
+                        ))}
+                    </DropdownMenuContent>
+                </DropdownMenu>
+            </div>
+            {rows.length === 0 ? (
+                <div className="rounded-sm border p-6 text-sm text-muted-foreground">No results.</div>
+            ) : (
+                <div className="grid grid-cols-[repeat(auto-fill,minmax(15rem,1fr))] gap-3">
+                    {rows.map((row) => {
+                        const title = titleConfig ? formatCellValue(row[titleConfig.key], titleConfig.type) : ""
+                        const cover = coverConfig ? String(row[coverConfig.key] ?? "") : ""
+                        return (
+                            <Card key={getRowId(row)} className="gap-3 overflow-hidden pt-0 pb-4">
+                                {coverConfig && (
+                                    cover ? (
+                                        <img src={cover} alt="" className="aspect-video w-full bg-muted object-cover" />
+                                    ) : (
+                                        <div className="flex aspect-video w-full items-center justify-center bg-muted text-muted-foreground">
+                                            <ImageIcon className="size-6" />
+                                        </div>
+                                    )
+                                )}
+                                <CardHeader className={coverConfig ? "px-4" : "px-4 pt-4"}>
+                                    <CardTitle className="truncate">{title || "Untitled"}</CardTitle>
+                                </CardHeader>
+                                {cardFields.length > 0 && (
+                                    <CardContent className="flex flex-col gap-2 px-4 text-sm">
+                                        {cardFields.map((config) => (
+                                            <div key={config.key} className="flex min-w-0 flex-col gap-0.5">
+                                                <span className="text-xs text-muted-foreground">{config.key}</span>
+                                                <FieldValue config={config} value={row[config.key]} />
+                                            </div>
+                                        ))}
+                                    </CardContent>
+                                )}
+                            </Card>
+                        )
+                    })}
+                </div>
+            )}
+        </div>
+    )
+}
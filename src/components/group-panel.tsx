@@ -0,0 +1,135 @@
+"use client"
+
+import { ListTree, Plus, X } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select"
+import { type ColumnConfig } from "@/lib/column-types"
+import {
+    type DateGranularity,
+    type GroupRule,
+    DATE_GRANULARITY_LABELS,
+    MAX_GROUP_LEVELS,
+    canGroupBy,
+    isNumericGroupType,
+} from "@/lib/grouping"
+
+interface GroupPanelProps {
+    columnConfigs: ColumnConfig[]
+    grouping: GroupRule[]
+    onGroupingChange: (grouping: GroupRule[]) => void
+}
+
+export const GroupPanel = ({ columnConfigs, grouping, onGroupingChange }: GroupPanelProps) => {
+    const groupable = columnConfigs.filter(canGroupBy)
+    const unused = groupable.filter((c) => !grouping.some((r) => r.key === c.key))
+
+    const updateRule = (index: number, rule: GroupRule) =>
+        onGroupingChange(grouping.map((r, i) => (i === index ? rule : r)))
+
+    return (
+        <Popover>
+            <PopoverTrigger asChild>
+                <Button variant={grouping.length > 0 ? "secondary" : "ghost"} size="sm">
+                    <ListTree />
+                    {grouping.length > 0
+                        ? `Grouped by ${grouping.length} field${grouping.length > 1 ? "s" : ""}`
+                        : "Group"}
+                </Button>
+            </PopoverTrigger>
+            <PopoverContent align="start" className="w-auto min-w-sm">
+                <div className="flex flex-col gap-2">
+                    {grouping.length === 0 && (
+                        <p className="text-sm text-muted-foreground">Rows in this view aren&apos;t grouped.</p>
+                    )}
+                    {grouping.map((rule, i) => {
+                        const config = columnConfigs.find((c) => c.key === rule.key)
+                        return (
+                            <div key={rule.key} className="flex items-center gap-1.5">
+                                <span className="w-20 shrink-0 text-sm text-muted-foreground">
+                                    {i === 0 ? "Group by" : "then by"}
+                                </span>
+                                <Select
+                                    value={rule.key}
+                                    onValueChange={(key) => updateRule(i, { key })}
+                                >
+                                    <SelectTrigger size="sm" className="w-36">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {groupable
+                                            .filter((c) => c.key === rule.key || !grouping.some((r) => r.key === c.key))
+                                            .map((c) => (
+                                                <SelectItem key={c.key} value={c.key}>
+                                                    {c.key}
+                                                </SelectItem>
+                                            ))}
+                                    </SelectContent>
+                                </Select>
+                                {config?.type === "date" && (
+                                    <Select
+                                        value={rule.granularity ?? "day"}
+                                        onValueChange={(v) => updateRule(i, { ...rule, granularity: v as DateGranularity })}
+                                    >
+                                        <SelectTrigger size="sm" className="w-28">
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {(Object.keys(DATE_GRANULARITY_LABELS) as DateGranularity[]).map((g) => (
+                                                <SelectItem key={g} value={g}>
+                                                    {DATE_GRANULARITY_LABELS[g]}
+                                                </SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                )}
+                                {config && isNumericGroupType(config.type) && (
+                                    <Input
+                                        type="number"
+                                        min={0}
+                                        className="h-8 w-28"
+                                        placeholder="Bucket size"
+                                        value={rule.bucketSize ?? ""}
+                                        onChange={(e) => {
+                                            const size = Number(e.target.value)
+                                            updateRule(i, { ...rule, bucketSize: e.target.value && size > 0 ? size : undefined })
+                                        }}
+                                    />
+                                )}
+                                <Button
+                                    variant="ghost"
+                                    size="icon-xs"
+                                    className="ml-auto"
+                                    onClick={() => onGroupingChange(grouping.filter((_, j) => j !== i))}
+                                >
+                                    <X />
+                                    <span className="sr-only">Remove grouping</span>
+                                </Button>
+                            </div>
+                        )
+                    })}
+                    {grouping.length < MAX_GROUP_LEVELS && (
+                        <Button
+                            variant="ghost"
+                            size="xs"
+                            className="self-start"
+                            disabled={unused.length === 0}
+                            onClick={() => onGroupingChange([...grouping, { key: unused[0].key }])}
+                        >
+                            <Plus />
+                            {grouping.length === 0 ? "Add group" : "Add subgroup"}
+                        </Button>
+                    )}
+                </div>
+            </PopoverContent>
+        </Popover>
+    )
+}
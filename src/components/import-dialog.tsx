@@ -0,0 +1,408 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { FileUp } from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog"
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select"
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table"
+import { typeIcons } from "@/components/columns"
+import {
+    type ColumnConfig,
+    type ColumnType,
+    COLUMN_TYPES,
+    COLUMN_TYPE_LABELS,
+    isComputedType,
+} from "@/lib/column-types"
+import {
+    type CsvDelimiter,
+    CSV_DELIMITERS,
+    CSV_DELIMITER_LABELS,
+    detectDelimiter,
+    parseDelimited,
+} from "@/lib/csv"
+import {
+    type ImportMapping,
+    type ImportResult,
+    buildImport,
+    inferColumnType,
+    suggestMappings,
+} from "@/lib/import"
+import { type WorkbookSheet, readWorkbook } from "@/lib/xlsx"
+import { useTables } from "@/hooks/use-tables"
+
+interface ImportDialogProps {
+    open: boolean
+    onOpenChange: (open: boolean) => void
+    columnConfigs: ColumnConfig[]
+    onImport: (result: ImportResult) => void
+}
+
+const PREVIEW_ROWS = 5
+
+/** Error rows listed after an import; the rest are summarized in a count. */
+const MAX_LISTED_ERRORS = 50
+
+// Link columns need a target table, so imports can only fill existing ones.
+const IMPORTABLE_TYPES = COLUMN_TYPES.filter((t) => !isComputedType(t) && t !== "link")
+
+/** A delimited text file, or a workbook read one sheet at a time. */
+type ImportSource =
+    | { kind: "text"; text: string; delimiter: CsvDelimiter }
+    | { kind: "workbook"; sheets: WorkbookSheet[]; sheet: number }
+
+const parseSource = (source: ImportSource | null): string[][] => {
+    if (!source) return []
+    if (source.kind === "text") return parseDelimited(source.text, source.delimiter)
+    return source.sheets[source.sheet]?.rows ?? []
+}
+
+// Splits the file into header names and data records; files without a header get blank names.
+const splitRecords = (source: ImportSource | null, hasHeader: boolean) => {
+    const parsed = parseSource(source)
+    const width = parsed.reduce((max, r) => Math.max(max, r.length), 0)
+    const first = hasHeader ? parsed[0] ?? [] : []
+    return {
+        headers: Array.from({ length: width }, (_, i) => first[i] ?? ""),
+        records: hasHeader ? parsed.slice(1) : parsed,
+    }
+}
+
+const toMappingValue = (mapping: ImportMapping): string =>
+    mapping.kind === "existing" ? `existing:${mapping.key}` : mapping.kind
+
+export const ImportDialog = ({ open, onOpenChange, columnConfigs, onImport }: ImportDialogProps) => {
+    const tables = useTables()
+    const [fileName, setFileName] = useState("")
+    const [source, setSource] = useState<ImportSource | null>(null)
+    const [hasHeader, setHasHeader] = useState(true)
+    const [mappings, setMappings] = useState<ImportMapping[]>([])
+    const [result, setResult] = useState<ImportResult | null>(null)
+
+    const { headers, records } = useMemo(() => splitRecords(source, hasHeader), [source, hasHeader])
+
+    const editable = columnConfigs.filter((c) => !isComputedType(c.type))
+
+    const reset = (nextSource: ImportSource, nextHasHeader: boolean) => {
+        const split = splitRecords(nextSource, nextHasHeader)
+        setSource(nextSource)
+        setHasHeader(nextHasHeader)
+        setMappings(suggestMappings(split.headers, split.records, columnConfigs))
+    }
+
+    const handleFile = async (file: File | undefined) => {
+        if (!file) return
+        if (/\.xlsx$/i.test(file.name)) {
+            let sheets: WorkbookSheet[]
+            try {
+                sheets = await readWorkbook(await file.arrayBuffer())
+            } catch {
+                toast.error(`Couldn't read ${file.name} as an Excel workbook.`)
+                return
+            }
+            if (sheets.length === 0) {
+                toast.error(`${file.name} has no sheets to import.`)
+                return
+            }
+            setFileName(file.name)
+            setResult(null)
+            reset({ kind: "workbook", sheets, sheet: 0 }, true)
+            return
+        }
+        const content = await file.text()
+        setFileName(file.name)
+        setResult(null)
+        reset({ kind: "text", text: content, delimiter: detectDelimiter(content) }, true)
+    }
+
+    const handleClose = (next: boolean) => {
+        if (!next) {
+            setFileName("")
+            setSource(null)
+            setMappings([])
+            setResult(null)
+        }
+        onOpenChange(next)
+    }
+
+    const updateMapping = (index: number, mapping: ImportMapping) =>
+        setMappings((prev) => prev.map((m, i) => (i === index ? mapping : m)))
+
+    const handleMappingChange = (index: number, value: string) => {
+        if (value === "skip") return updateMapping(index, { kind: "skip" })
+        if (value.startsWith("existing:")) return updateMapping(index, { kind: "existing", key: value.slice(9) })
+        const name = headers[index].trim() || `Column ${index + 1}`
+        updateMapping(index, { kind: "new", column: { key: name, ...inferColumnType(records.map((r) => r[index] ?? "")) } })
+    }
+
+    const handleTypeChange = (index: number, column: ColumnConfig, type: ColumnType) => {
+        const inferred = inferColumnType(records.map((r) => r[index] ?? ""))
+        // Keep the inferred options when switching to a select; labels found on import are added either way.
+        updateMapping(index, {
+            kind: "new",
+            column: { key: column.key, type, options: inferred.type === "select" ? inferred.options : undefined },
+        })
+    }
+
+    const newKeys = mappings.flatMap((m) => (m.kind === "new" ? [m.column.key.trim()] : []))
+    const keyError = newKeys.some((k) => !k)
+        ? "New columns need a name."
+        : newKeys.some((k, i) => newKeys.indexOf(k) !== i || columnConfigs.some((c) => c.key === k))
+            ? "New column names must be unique."
+            : null
+    const mapped = mappings.filter((m) => m.kind !== "skip").length
+
+    const handleImport = () => {
+        const trimmed = mappings.map((m) =>
+            m.kind === "new" ? { ...m, column: { ...m.column, key: m.column.key.trim() } } : m
+        )
+        const built = buildImport(records, trimmed, columnConfigs, tables)
+        onImport(built)
+        setResult(built)
+    }
+
+    return (
+        <Dialog open={open} onOpenChange={handleClose}>
+            <DialogContent className="sm:max-w-4xl">
+                <DialogHeader>
+                    <DialogTitle>Import CSV or Excel</DialogTitle>
+                    <DialogDescription>
+                        {result
+                            ? `Imported ${result.rows.length} row${result.rows.length === 1 ? "" : "s"} from ${fileName}.`
+                            : "Rows are added to the end of the table. Choose where each column of the file goes."}
+                    </DialogDescription>
+                </DialogHeader>
+
+                {result ? (
+                    result.errors.length > 0 ? (
+                        <div className="flex flex-col gap-2">
+                            <p className="text-sm">
+                                {result.errors.length} value{result.errors.length === 1 ? "" : "s"} didn&apos;t fit
+                                the column type and {result.errors.length === 1 ? "was" : "were"} left empty:
+                            </p>
+                            <div className="max-h-64 overflow-auto rounded-md border">
+                                <Table>
+                                    <TableHeader>
+                                        <TableRow>
+                                            <TableHead className="w-20">Row</TableHead>
+                                            <TableHead>Column</TableHead>
+                                            <TableHead>Value</TableHead>
+                                        </TableRow>
+                                    </TableHeader>
+                                    <TableBody>
+                                        {result.errors.slice(0, MAX_LISTED_ERRORS).map((error, i) => (
+                                            <TableRow key={i}>
+                                                <TableCell>{error.row}</TableCell>
+                                                <TableCell>{error.column}</TableCell>
+                                                <TableCell className="font-mono">{error.value}</TableCell>
+                                            </TableRow>
+                                        ))}
+                                    </TableBody>
+                                </Table>
+                            </div>
+                            {result.errors.length > MAX_LISTED_ERRORS && (
+                                <p className="text-sm text-muted-foreground">
+                                    and {result.errors.length - MAX_LISTED_ERRORS} more.
+                                </p>
+                            )}
+                        </div>
+                    ) : (
+                        <p className="text-sm text-muted-foreground">Every value was imported.</p>
+                    )
+                ) : !source ? (
+                    <label className="flex cursor-pointer flex-col items-center gap-2 rounded-md border border-dashed p-10 text-sm text-muted-foreground hover:bg-muted/50">
+                        <FileUp className="size-6" />
+                        Choose a CSV, TSV or Excel file
+                        <input
+                            type="file"
+                            accept=".csv,.tsv,.txt,.xlsx,text/csv,text/tab-separated-values,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                            className="sr-only"
+                            onChange={(e) => handleFile(e.target.files?.[0])}
+                        />
+                    </label>
+                ) : (
+                    <div className="flex min-w-0 flex-col gap-3">
+                        <div className="flex flex-wrap items-center gap-4 text-sm">
+                            <span className="truncate font-medium">{fileName}</span>
+                            {source.kind === "text" ? (
+                                <div className="flex items-center gap-2">
+                                    <Label>Delimiter</Label>
+                                    <Select
+                                        value={source.delimiter}
+                                        onValueChange={(v) => reset({ ...source, delimiter: v as CsvDelimiter }, hasHeader)}
+                                    >
+                                        <SelectTrigger size="sm" className="w-32">
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {CSV_DELIMITERS.map((d) => (
+                                                <SelectItem key={d} value={d}>
+                                                    {CSV_DELIMITER_LABELS[d]}
+                                                </SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                            ) : (
+                                <div className="flex items-center gap-2">
+                                    <Label>Sheet</Label>
+                                    <Select
+                                        value={String(source.sheet)}
+                                        onValueChange={(v) => reset({ ...source, sheet: Number(v) }, hasHeader)}
+                                    >
+                                        <SelectTrigger size="sm" className="w-40">
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {source.sheets.map((sheet, i) => (
+                                                <SelectItem key={i} value={String(i)}>
+                                                    {sheet.name}
+                                                </SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                            )}
+                            <div className="flex items-center gap-2">
+                                <Checkbox
+                                    id="import-has-header"
+                                    checked={hasHeader}
+                                    onCheckedChange={(checked) => reset(source, checked === true)}
+                                />
+                                <Label htmlFor="import-has-header">First row is a header</Label>
+                            </div>
+                            <span className="ml-auto text-muted-foreground">
+                                {records.length} row{records.length === 1 ? "" : "s"}
+                            </span>
+                        </div>
+                        <div className="max-h-96 overflow-auto rounded-md border">
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        {headers.map((header, i) => {
+                                            const mapping = mappings[i] ?? { kind: "skip" }
+                                            return (
+                                                <TableHead key={i} className="h-auto min-w-48 py-2 align-top">
+                                                    <div className="flex flex-col gap-1.5">
+                                                        <span className="truncate">{header || `Column ${i + 1}`}</span>
+                                                        <Select
+                                                            value={toMappingValue(mapping)}
+                                                            onValueChange={(v) => handleMappingChange(i, v)}
+                                                        >
+                                                            <SelectTrigger size="sm" className="w-full font-normal">
+                                                                <SelectValue />
+                                                            </SelectTrigger>
+                                                            <SelectContent>
+                                                                <SelectItem value="skip">Don&apos;t import</SelectItem>
+                                                                <SelectItem value="new">New column</SelectItem>
+                                                                {editable.map((c) => (
+                                                                    <SelectItem key={c.key} value={`existing:${c.key}`}>
+                                                                        {c.key}
+                                                                    </SelectItem>
+                                                                ))}
+                                                            </SelectContent>
+                                                        </Select>
+                                                        {mapping.kind === "new" && (
+                                                            <>
+                                                                <Input
+                                                                    className="h-8 font-normal"
+                                                                    value={mapping.column.key}
+                                                                    onChange={(e) =>
+                                                                        updateMapping(i, {
+                                                                            kind: "new",
+                                                                            column: { ...mapping.column, key: e.target.value },
+                                                                        })
+                                                                    }
+                                                                />
+                                                                <Select
+                                                                    value={mapping.column.type}
+                                                                    onValueChange={(v) =>
+                                                                        handleTypeChange(i, mapping.column, v as ColumnType)
+                                                                    }
+                                                                >
+                                                                    <SelectTrigger size="sm" className="w-full font-normal">
+                                                                        <SelectValue />
+                                                                    </SelectTrigger>
+                                                                    <SelectContent>
+                                                                        {IMPORTABLE_TYPES.map((type) => {
+                                                                            const Icon = typeIcons[type]
+                                                                            return (
+                                                                                <SelectItem key={type} value={type}>
+                                                                                    <Icon className="size-3.5" />
+                                                                                    {COLUMN_TYPE_LABELS[type]}
+                                                                                </SelectItem>
+                                                                            )
+                                                                        })}
+                                                                    </SelectContent>
+                                                                </Select>
+                                                            </>
+                                                        )}
+                                                    </div>
+                                                </TableHead>
+                                            )
+                                        })}
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {records.slice(0, PREVIEW_ROWS).map((record, r) => (
+                                        <TableRow key={r}>
+                                            {headers.map((_, i) => (
+                                                <TableCell key={i} className="max-w-48 truncate">
+                                                    {record[i] ?? ""}
+                                                </TableCell>
+                                            ))}
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </div>
+                        {keyError && <p className="text-sm text-destructive">{keyError}</p>}
+                    </div>
+                )}
+
+                <DialogFooter>
+                    {result ? (
+                        <Button onClick={() => handleClose(false)}>Done</Button>
+                    ) : (
+                        <>
+                            <Button variant="outline" onClick={() => handleClose(false)}>
+                                Cancel
+                            </Button>
+                            <Button
+                                disabled={!source || records.length === 0 || mapped === 0 || !!keyError}
+                                onClick={handleImport}
+                            >
+                                Import {records.length} row{records.length === 1 ? "" : "s"}
+                            </Button>
+                        </>
+                    )}
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    )
+}
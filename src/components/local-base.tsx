@@ -0,0 +1,28 @@
+"use client"
+
+import { useMemo } from "react"
+import dynamic from "next/dynamic"
+
+import { createSeedTables } from "@/lib/base"
+import { createIndexedDbStorage } from "@/lib/storage"
+
+// IndexedDB only exists in the browser, so the base renders once it can be read there.
+const BaseView = dynamic(() => import("@/components/base-view").then((m) => m.BaseView), { ssr: false })
+
+/**
+ * The base kept in this browser's IndexedDB, for when the server's database can't be
+ * opened. Starts from the seed tables until something has been saved.
+ */
+export const LocalBase = () => {
+    const tables = useMemo(() => createSeedTables(), [])
+    const storage = useMemo(() => createIndexedDbStorage(), [])
+
+    return (
+        <div className="flex flex-col gap-4">
+            <p className="rounded-md border px-3 py-2 text-sm text-muted-foreground">
+                The database couldn&apos;t be opened, so changes are saved in this browser only.
+            </p>
+            <BaseView initialTables={tables} storage={storage} restoreSaved />
+        </div>
+    )
+}
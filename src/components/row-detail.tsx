@@ -0,0 +1,146 @@
+"use client"
+
+import { useState } from "react"
+import { ChevronDown, ChevronUp } from "lucide-react"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet"
+import { Drawer, DrawerContent, DrawerDescription, DrawerHeader, DrawerTitle } from "@/components/ui/drawer"
+import { type Row, typeIcons } from "@/components/columns"
+import { CellEditor } from "@/components/cell-editors"
+import { type ColumnConfig } from "@/lib/column-types"
+import { findTable, getRowTitle } from "@/lib/base"
+import { useTables } from "@/hooks/use-tables"
+import { useIsMobile } from "@/hooks/use-mobile"
+
+interface RowDetailProps {
+    tableId: string
+    columnConfigs: ColumnConfig[]
+    /** The open row, with computed values filled in; null when the panel is closed. */
+    row: Row | null
+    /** The row's position among the rows the view shows, or -1 when the view doesn't show it. */
+    index: number
+    count: number
+    /** Columns hidden in the active view; the panel still lists them. */
+    hiddenKeys: Set<string>
+    onNavigate: (offset: 1 | -1) => void
+    onClose: () => void
+    onCellChange: (key: string, value: unknown) => void
+    onCreateOption: (key: string, label: string) => void
+}
+
+/**
+ * Every field of one row as a form, with full-size editors. Opens as a side sheet, or a
+ * bottom drawer on small screens.
+ */
+export const RowDetail = ({
+    tableId,
+    columnConfigs,
+    row,
+    index,
+    count,
+    hiddenKeys,
+    onNavigate,
+    onClose,
+    onCellChange,
+    onCreateOption,
+}: RowDetailProps) => {
+    const table = findTable(useTables(), tableId)
+    const isMobile = useIsMobile()
+    // The last row stays on screen while the panel animates closed.
+    const [lastRow, setLastRow] = useState(row)
+    if (row && row !== lastRow) setLastRow(row)
+    const shown = row ?? lastRow
+
+    const title = shown && table ? getRowTitle(table, shown) : "Untitled"
+    const position = index === -1 ? "Not shown in this view" : `Row ${index + 1} of ${count}`
+
+    const navigation = (
+        <div className="flex items-center gap-1">
+            <Button
+                variant="ghost"
+                size="icon-xs"
+                title="Previous row"
+                disabled={index <= 0}
+                onClick={() => onNavigate(-1)}
+            >
+                <ChevronUp />
+                <span className="sr-only">Previous row</span>
+            </Button>
+            <Button
+                variant="ghost"
+                size="icon-xs"
+                title="Next row"
+                disabled={index === -1 || index >= count - 1}
+                onClick={() => onNavigate(1)}
+            >
+                <ChevronDown />
+                <span className="sr-only">Next row</span>
+            </Button>
+        </div>
+    )
+
+    const fields = shown && (
+        <div className="flex min-h-0 flex-1 flex-col gap-4 overflow-y-auto px-4 pb-4">
+            {columnConfigs.map((config) => {
+                const Icon = typeIcons[config.type]
+                return (
+                    <div key={config.key} className="flex flex-col gap-1.5">
+                        <Label className="text-muted-foreground">
+                            <Icon className="size-3.5 shrink-0" />
+                            <span className="truncate">{config.key}</span>
+                            {hiddenKeys.has(config.key) && <Badge variant="outline">Hidden</Badge>}
+                        </Label>
+                        <CellEditor
+                            variant="field"
+                            config={config}
+                            columnConfigs={columnConfigs}
+                            value={shown[config.key]}
+                            onChange={(value) => onCellChange(config.key, value)}
+                            onCreateOption={(label) => onCreateOption(config.key, label)}
+                        />
+                    </div>
+                )
+            })}
+        </div>
+    )
+
+    const handleOpenChange = (open: boolean) => {
+        if (!open) onClose()
+    }
+
+    if (isMobile) {
+        return (
+            <Drawer open={!!row} onOpenChange={handleOpenChange}>
+                <DrawerContent>
+                    <DrawerHeader className="flex-row items-center justify-between gap-2 text-left">
+                        <div className="flex min-w-0 flex-col gap-0.5">
+                            <DrawerTitle className="truncate">{title}</DrawerTitle>
+                            <DrawerDescription>{position}</DrawerDescription>
+                        </div>
+                        {navigation}
+                    </DrawerHeader>
+                    {fields}
+                </DrawerContent>
+            </Drawer>
+        )
+    }
+
+    return (
+        <Sheet open={!!row} onOpenChange={handleOpenChange}>
+            <SheetContent className="sm:max-w-lg">
+                {/* Leaves room for the sheet's close button. */}
+                <SheetHeader className="flex-row items-center justify-between gap-2 pr-12">
+                    <div className="flex min-w-0 flex-col gap-1.5">
+                        <SheetTitle className="truncate">{title}</SheetTitle>
+                        <SheetDescription>{position}</SheetDescription>
+                    </div>
+                    {navigation}
+                </SheetHeader>
+                {fields}
+            </SheetContent>
+        </Sheet>
+    )
+}
@@ -0,0 +1,157 @@
+"use client"
+
+import { useState } from "react"
+import type { SortingState } from "@tanstack/react-table"
+import { ArrowUpDown, GripVertical, Plus, X } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select"
+import { type ColumnConfig } from "@/lib/column-types"
+import { moveInOrder } from "@/lib/views"
+import { cn } from "@/lib/utils"
+
+interface SortPanelProps {
+    columnConfigs: ColumnConfig[]
+    sorting: SortingState
+    onSortingChange: (sorting: SortingState) => void
+}
+
+export const SortPanel = ({ columnConfigs, sorting, onSortingChange }: SortPanelProps) => {
+    const [draggingKey, setDraggingKey] = useState<string | null>(null)
+    const [dropKey, setDropKey] = useState<string | null>(null)
+
+    // Keys for columns that were deleted or renamed away are kept in the view but not shown.
+    const entries = sorting.filter((s) => columnConfigs.some((c) => c.key === s.id))
+    const unused = columnConfigs.filter((c) => !sorting.some((s) => s.id === c.key))
+
+    const updateEntry = (key: string, patch: Partial<SortingState[number]>) =>
+        onSortingChange(sorting.map((s) => (s.id === key ? { ...s, ...patch } : s)))
+
+    const handleDrop = (beforeKey: string | null) => {
+        if (draggingKey && draggingKey !== beforeKey) {
+            const order = moveInOrder(sorting.map((s) => s.id), draggingKey, beforeKey)
+            onSortingChange(order.map((id) => sorting.find((s) => s.id === id)!))
+        }
+        setDraggingKey(null)
+        setDropKey(null)
+    }
+
+    return (
+        <Popover>
+            <PopoverTrigger asChild>
+                <Button variant={entries.length > 0 ? "secondary" : "ghost"} size="sm">
+                    <ArrowUpDown />
+                    {entries.length > 0
+                        ? `Sorted by ${entries.length} field${entries.length > 1 ? "s" : ""}`
+                        : "Sort"}
+                </Button>
+            </PopoverTrigger>
+            <PopoverContent align="start" className="w-auto min-w-sm">
+                <div className="flex flex-col gap-2">
+                    {entries.length === 0 && (
+                        <p className="text-sm text-muted-foreground">
+                            Rows in this view aren&apos;t sorted. Shift-click a column header to add a sort.
+                        </p>
+                    )}
+                    {entries.map((entry, i) => (
+                        <div
+                            key={entry.id}
+                            className={cn(
+                                "flex items-center gap-1.5 rounded-md",
+                                draggingKey === entry.id && "opacity-50",
+                                dropKey === entry.id && draggingKey !== entry.id && "ring-2 ring-primary/40"
+                            )}
+                            onDragOver={(e) => {
+                                if (!draggingKey) return
+                                e.preventDefault()
+                                setDropKey(entry.id)
+                            }}
+                            onDrop={(e) => {
+                                e.preventDefault()
+                                // Dropping on a lower entry places the dragged key after it.
+                                const from = sorting.findIndex((s) => s.id === draggingKey)
+                                const to = sorting.findIndex((s) => s.id === entry.id)
+                                handleDrop(from < to ? (sorting[to + 1]?.id ?? null) : entry.id)
+                            }}
+                        >
+                            <span
+                                draggable
+                                className="cursor-grab text-muted-foreground"
+                                onDragStart={(e) => {
+                                    e.dataTransfer.effectAllowed = "move"
+                                    e.dataTransfer.setData("text/plain", entry.id)
+                                    setDraggingKey(entry.id)
+                                }}
+                                onDragEnd={() => {
+                                    setDraggingKey(null)
+                                    setDropKey(null)
+                                }}
+                            >
+                                <GripVertical className="size-4" />
+                                <span className="sr-only">Drag to change priority</span>
+                            </span>
+                            <span className="w-14 shrink-0 text-sm text-muted-foreground">
+                                {i === 0 ? "Sort by" : "then by"}
+                            </span>
+                            <Select
+                                value={entry.id}
+                                onValueChange={(key) => updateEntry(entry.id, { id: key })}
+                            >
+                                <SelectTrigger size="sm" className="w-36">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {columnConfigs
+                                        .filter((c) => c.key === entry.id || !sorting.some((s) => s.id === c.key))
+                                        .map((c) => (
+                                            <SelectItem key={c.key} value={c.key}>
+                                                {c.key}
+                                            </SelectItem>
+                                        ))}
+                                </SelectContent>
+                            </Select>
+                            <Select
+                                value={entry.desc ? "desc" : "asc"}
+                                onValueChange={(v) => updateEntry(entry.id, { desc: v === "desc" })}
+                            >
+                                <SelectTrigger size="sm" className="w-32">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="asc">Ascending</SelectItem>
+                                    <SelectItem value="desc">Descending</SelectItem>
+                                </SelectContent>
+                            </Select>
+                            <Button
+                                variant="ghost"
+                                size="icon-xs"
+                                className="ml-auto"
+                                onClick={() => onSortingChange(sorting.filter((s) => s.id !== entry.id))}
+                            >
+                                <X />
+                                <span className="sr-only">Remove sort</span>
+                            </Button>
+                        </div>
+                    ))}
+                    <Button
+                        variant="ghost"
+                        size="xs"
+                        className="self-start"
+                        disabled={unused.length === 0}
+                        onClick={() => onSortingChange([...sorting, { id: unused[0].key, desc: false }])}
+                    >
+                        <Plus />
+                        Add sort
+                    </Button>
+                </div>
+            </PopoverContent>
+        </Popover>
+    )
+}
@@ -0,0 +1,381 @@
+"use client"
+
+import { useState, useMemo } from "react"
+import {
+    addDays,
+    differenceInCalendarDays,
+    eachDayOfInterval,
+    eachMonthOfInterval,
+    eachWeekOfInterval,
+    endOfMonth,
+    endOfWeek,
+    format,
+    max,
+    min,
+    startOfDay,
+    startOfMonth,
+    startOfWeek,
+} from "date-fns"
+
+import { Badge } from "@/components/ui/badge"
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { type Row } from "@/components/columns"
+import { type ColumnConfig, formatCellValue, parseDateValue } from "@/lib/column-types"
+import { getRowId } from "@/lib/base"
+import { type TimelineScale, type TimelineSettings } from "@/lib/views"
+import { cn } from "@/lib/utils"
+
+interface TimelineViewProps {
+    columnConfigs: ColumnConfig[]
+    rows: Row[]
+    settings: TimelineSettings
+    onSettingsChange: (settings: TimelineSettings) => void
+    onCellChange: (rowId: string, key: string, value: unknown) => void
+}
+
+interface Bar {
+    row: Row
+    start: Date | null
+    end: Date | null
+}
+
+interface Lane {
+    label: string | null
+    color?: string
+    bars: Bar[]
+}
+
+interface Drag {
+    id: string
+    mode: "move" | "start" | "end"
+    originX: number
+    days: number
+}
+
+const NO_GROUP = "none"
+
+const UNCATEGORIZED = "Uncategorized"
+
+const LABEL_WIDTH = 192
+
+/** Pixels per day at each zoom level. */
+const DAY_WIDTH: Record<TimelineScale, number> = {
+    day: 40,
+    week: 16,
+    month: 4,
+}
+
+const SCALE_LABELS: Record<TimelineScale, string> = {
+    day: "Day",
+    week: "Week",
+    month: "Month",
+}
+
+/** Days of empty scale shown on either side of the scheduled rows. */
+const PADDING_DAYS: Record<TimelineScale, number> = {
+    day: 3,
+    week: 14,
+    month: 30,
+}
+
+const alignStart = (date: Date, scale: TimelineScale) =>
+    scale === "month" ? startOfMonth(date) : scale === "week" ? startOfWeek(date) : startOfDay(date)
+
+const alignEnd = (date: Date, scale: TimelineScale) =>
+    scale === "month" ? endOfMonth(date) : scale === "week" ? endOfWeek(date) : startOfDay(date)
+
+const getTicks = (start: Date, end: Date, scale: TimelineScale): Date[] => {
+    if (scale === "month") return eachMonthOfInterval({ start, end })
+    if (scale === "week") return eachWeekOfInterval({ start, end })
+    return eachDayOfInterval({ start, end })
+}
+
+const formatTick = (date: Date, scale: TimelineScale) =>
+    format(date, scale === "month" ? "MMM yyyy" : scale === "week" ? "MMM d" : "EEEEE d")
+
+/** Applies an in-progress drag to a bar's dates, never letting the start pass the end. */
+const applyDrag = (start: Date, end: Date, drag: Drag): [Date, Date] => {
+    switch (drag.mode) {
+        case "move":
+            return [addDays(start, drag.days), addDays(end, drag.days)]
+        case "start":
+            return [min([addDays(start, drag.days), end]), end]
+        case "end":
+            return [start, max([addDays(end, drag.days), start])]
+    }
+}
+
+export const TimelineView = ({ columnConfigs, rows, settings, onSettingsChange, onCellChange }: TimelineViewProps) => {
+    const [drag, setDrag] = useState<Drag | null>(null)
+
+    const dateColumns = columnConfigs.filter((c) => c.type === "date")
+    const startConfig = dateColumns.find((c) => c.key === settings.startKey) ?? dateColumns[0]
+    const endConfig = dateColumns.find((c) => c.key === settings.endKey) ?? dateColumns[1] ?? startConfig
+    const selectColumns = columnConfigs.filter((c) => c.type === "select")
+    const groupConfig = selectColumns.find((c) => c.key === settings.groupKey)
+    const titleConfig = columnConfigs.find((c) => c.type !== "date")
+    const dayWidth = DAY_WIDTH[settings.scale]
+
+    const bars = useMemo<Bar[]>(() => {
+        if (!startConfig || !endConfig) return []
+        return rows.map((row) => {
+            const start = parseDateValue(row[startConfig.key])
+            const end = parseDateValue(row[endConfig.key])
+            // A bar needs a start; a missing or earlier end makes it a single day.
+            return { row, start, end: start && (!end || end < start) ? start : end }
+        })
+    }, [rows, startConfig, endConfig])
+
+    const lanes = useMemo<Lane[]>(() => {
+        if (!groupConfig) return [{ label: null, bars }]
+        const byLabel = new Map<string | null, Lane>([
+            [null, { label: null, bars: [] }],
+            ...(groupConfig.options ?? []).map((o): [string, Lane] => [o.label, { label: o.label, color: o.color, bars: [] }]),
+        ])
+        for (const bar of bars) {
+            const value = bar.row[groupConfig.key]
+            byLabel.get(typeof value === "string" && byLabel.has(value) ? value : null)!.bars.push(bar)
+        }
+        const uncategorized = byLabel.get(null)!
+        return [...byLabel.values()].slice(1).concat(uncategorized.bars.length > 0 ? [uncategorized] : [])
+    }, [bars, groupConfig])
+
+    const [rangeStart, rangeEnd] = useMemo(() => {
+        const dates = bars.flatMap((b) => (b.start && b.end ? [b.start, b.end] : []))
+        const today = new Date()
+        const earliest = dates.length > 0 ? min(dates) : today
+        const latest = dates.length > 0 ? max(dates) : addDays(today, 30)
+        const padding = PADDING_DAYS[settings.scale]
+        return [
+            alignStart(addDays(earliest, -padding), settings.scale),
+            alignEnd(addDays(latest, padding), settings.scale),
+        ]
+    }, [bars, settings.scale])
+
+    if (!startConfig || !endConfig) {
+        return (
+            <div className="rounded-sm border p-6 text-sm text-muted-foreground">
+                Add a date column to lay rows out on a timeline.
+            </div>
+        )
+    }
+
+    const totalWidth = (differenceInCalendarDays(rangeEnd, rangeStart) + 1) * dayWidth
+    const offsetOf = (date: Date) => differenceInCalendarDays(date, rangeStart) * dayWidth
+    const ticks = getTicks(rangeStart, rangeEnd, settings.scale)
+
+    const commitDrag = (bar: Bar) => {
+        setDrag(null)
+        if (!drag || drag.days === 0 || !bar.start || !bar.end) return
+        const [start, end] = applyDrag(bar.start, bar.end, drag)
+        const id = getRowId(bar.row)
+        if (drag.mode !== "end") onCellChange(id, startConfig.key, start.toISOString())
+        if (drag.mode !== "start") onCellChange(id, endConfig.key, end.toISOString())
+    }
+
+    const beginDrag = (e: React.PointerEvent, id: string, mode: Drag["mode"]) => {
+        if (e.button !== 0) return
+        e.stopPropagation()
+        e.currentTarget.setPointerCapture(e.pointerId)
+        setDrag({ id, mode, originX: e.clientX, days: 0 })
+    }
+
+    const renderBar = (bar: Bar, lane: Lane) => {
+        const id = getRowId(bar.row)
+        const title = titleConfig ? formatCellValue(bar.row[titleConfig.key], titleConfig.type) : ""
+
+        if (!bar.start || !bar.end) {
+            return (
+                <div
+                    className="absolute inset-0 cursor-pointer"
+                    title="Click to schedule"
+                    onClick={(e) => {
+                        const x = e.clientX - e.currentTarget.getBoundingClientRect().left
+                        const day = addDays(rangeStart, Math.floor(x / dayWidth)).toISOString()
+                        onCellChange(id, startConfig.key, day)
+                        if (endConfig.key !== startConfig.key) onCellChange(id, endConfig.key, day)
+                    }}
+                />
+            )
+        }
+
+        const [start, end] = drag?.id === id ? applyDrag(bar.start, bar.end, drag) : [bar.start, bar.end]
+        const width = (differenceInCalendarDays(end, start) + 1) * dayWidth
+        const resizable = endConfig.key !== startConfig.key
+
+        return (
+            <div
+                className={cn(
+                    "absolute top-1.5 flex h-6 cursor-grab items-center rounded-md px-2 text-xs text-white shadow-xs select-none touch-none",
+                    !lane.color && "bg-primary text-primary-foreground",
+                    drag?.id === id && "cursor-grabbing opacity-80"
+                )}
+                style={{ left: offsetOf(start), width, backgroundColor: lane.color }}
+                title={`${format(start, "MMM d, yyyy")} – ${format(end, "MMM d, yyyy")}`}
+                onPointerDown={(e) => beginDrag(e, id, "move")}
+                onPointerMove={(e) => {
+                    if (drag?.id !== id) return
+                    const days = Math.round((e.clientX - drag.originX) / dayWidth)
+                    if (days !== drag.days) setDrag({ ...drag, days })
+                }}
+                onPointerUp={() => commitDrag(bar)}
+                onPointerCancel={() => setDrag(null)}
+            >
+                {resizable && (
+                    <div
+                        className="absolute inset-y-0 left-0 w-1.5 cursor-ew-resize rounded-l-md hover:bg-black/20"
+                        onPointerDown={(e) => beginDrag(e, id, "start")}
+                    />
+                )}
+                <span className="truncate">{title || "Untitled"}</span>
+                {resizable && (
+                    <div
+                        className="absolute inset-y-0 right-0 w-1.5 cursor-ew-resize rounded-r-md hover:bg-black/20"
+                        onPointerDown={(e) => beginDrag(e, id, "end")}
+                    />
+                )}
+            </div>
+        )
+    }
+
+    const todayOffset = offsetOf(new Date())
+
+    return (
+        <div className="flex flex-col gap-3">
+            <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                Start
+                <Select
+                    value={startConfig.key}
+                    onValueChange={(startKey) => onSettingsChange({ ...settings, startKey })}
+                >
+                    <SelectTrigger size="sm" className="w-36">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {dateColumns.map((c) => (
+                            <SelectItem key={c.key} value={c.key}>
+                                {c.key}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+                End
+                <Select
+                    value={endConfig.key}
+                    onValueChange={(endKey) => onSettingsChange({ ...settings, endKey })}
+                >
+                    <SelectTrigger size="sm" className="w-36">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {dateColumns.map((c) => (
+                            <SelectItem key={c.key} value={c.key}>
+                                {c.key}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+                Swimlanes
+                <Select
+                    value={groupConfig?.key ?? NO_GROUP}
+                    onValueChange={(v) => onSettingsChange({ ...settings, groupKey: v === NO_GROUP ? undefined : v })}
+                >
+                    <SelectTrigger size="sm" className="w-36">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value={NO_GROUP}>None</SelectItem>
+                        {selectColumns.map((c) => (
+                            <SelectItem key={c.key} value={c.key}>
+                                {c.key}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+                <ToggleGroup
+                    type="single"
+                    variant="outline"
+                    size="sm"
+                    className="ml-auto"
+                    value={settings.scale}
+                    onValueChange={(v) => {
+                        if (v) onSettingsChange({ ...settings, scale: v as TimelineScale })
+                    }}
+                >
+                    {(Object.keys(SCALE_LABELS) as TimelineScale[]).map((s) => (
+                        <ToggleGroupItem key={s} value={s}>
+                            {SCALE_LABELS[s]}
+                        </ToggleGroupItem>
+                    ))}
+                </ToggleGroup>
+            </div>
+            <div className="max-h-[70vh] overflow-auto rounded-sm border">
+                <div className="relative" style={{ width: LABEL_WIDTH + totalWidth }}>
+                    <div className="sticky top-0 z-20 flex border-b bg-background">
+                        <div
+                            className="sticky left-0 z-10 shrink-0 border-r bg-background px-2 py-1.5 text-sm font-medium"
+                            style={{ width: LABEL_WIDTH }}
+                        >
+                            {titleConfig?.key}
+                        </div>
+                        <div className="relative h-8" style={{ width: totalWidth }}>
+                            {ticks.map((tick) => (
+                                <div
+                                    key={tick.getTime()}
+                                    className="absolute inset-y-0 truncate border-l px-1 py-1.5 text-[0.8rem] text-muted-foreground select-none"
+                                    style={{ left: offsetOf(max([tick, rangeStart])) }}
+                                >
+                                    {formatTick(tick, settings.scale)}
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                    {todayOffset >= 0 && todayOffset < totalWidth && (
+                        <div
+                            className="pointer-events-none absolute top-0 bottom-0 z-0 w-px bg-primary/50"
+                            style={{ left: LABEL_WIDTH + todayOffset + dayWidth / 2 }}
+                        />
+                    )}
+                    {lanes.map((lane) => (
+                        <div key={lane.label ?? UNCATEGORIZED}>
+                            {groupConfig && (
+                                <div className="border-b bg-muted/50 py-1">
+                                    <div className="sticky left-0 flex w-fit items-center gap-2 px-2">
+                                        {lane.label ? (
+                                            <Badge className="text-white border-0" style={{ backgroundColor: lane.color }}>
+                                                {lane.label}
+                                            </Badge>
+                                        ) : (
+                                            <span className="text-sm font-medium text-muted-foreground">{UNCATEGORIZED}</span>
+                                        )}
+                                        <span className="text-xs text-muted-foreground">{lane.bars.length}</span>
+                                    </div>
+                                </div>
+                            )}
+                            {lane.bars.map((bar) => (
+                                <div key={getRowId(bar.row)} className="flex h-9 border-b last:border-b-0">
+                                    <div
+                                        className="sticky left-0 z-10 shrink-0 truncate border-r bg-background px-2 py-2 text-sm"
+                                        style={{ width: LABEL_WIDTH }}
+                                    >
+                                        {(titleConfig && formatCellValue(bar.row[titleConfig.key], titleConfig.type)) || "Untitled"}
+                                    </div>
+                                    <div className="relative" style={{ width: totalWidth }}>
+                                        {renderBar(bar, lane)}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    )
+}
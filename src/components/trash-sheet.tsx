@@ -0,0 +1,112 @@
+"use client"
+
+import { formatDistanceToNow } from "date-fns"
+import { RotateCcw, Rows3, Trash2, X } from "lucide-react"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+    Sheet,
+    SheetContent,
+    SheetDescription,
+    SheetFooter,
+    SheetHeader,
+    SheetTitle,
+    SheetTrigger,
+} from "@/components/ui/sheet"
+import { typeIcons } from "@/components/columns"
+import { findTable, getRowTitle } from "@/lib/base"
+import { type TrashItem } from "@/lib/trash"
+import { useTables } from "@/hooks/use-tables"
+
+interface TrashSheetProps {
+    tableId: string
+    trash: TrashItem[]
+    onRestore: (item: TrashItem) => void
+    /** Deletes the item for good. */
+    onDelete: (item: TrashItem) => void
+    onEmpty: () => void
+}
+
+/** Row titles listed for a multi-row item; the rest are counted. */
+const MAX_LISTED_TITLES = 3
+
+export const TrashSheet = ({ tableId, trash, onRestore, onDelete, onEmpty }: TrashSheetProps) => {
+    const table = findTable(useTables(), tableId)
+
+    const describe = (item: TrashItem): { title: string; detail: string } => {
+        if (item.kind === "column") {
+            const count = Object.keys(item.values).length
+            return { title: item.column.key, detail: `Column, ${count} value${count === 1 ? "" : "s"}` }
+        }
+        const titles = table ? item.rows.map((row) => getRowTitle(table, row)) : []
+        if (item.rows.length === 1) return { title: titles[0] ?? "Untitled", detail: "Row" }
+        const listed = titles.slice(0, MAX_LISTED_TITLES).join(", ")
+        return {
+            title: `${item.rows.length} rows`,
+            detail: item.rows.length > MAX_LISTED_TITLES ? `${listed}, …` : listed,
+        }
+    }
+
+    return (
+        <Sheet>
+            <SheetTrigger asChild>
+                <Button variant="ghost" size="sm">
+                    <Trash2 />
+                    Trash
+                    {trash.length > 0 && <Badge variant="secondary">{trash.length}</Badge>}
+                </Button>
+            </SheetTrigger>
+            <SheetContent className="sm:max-w-md">
+                <SheetHeader>
+                    <SheetTitle>Trash</SheetTitle>
+                    <SheetDescription>
+                        Deleted columns and rows stay here until you restore them or delete them for good.
+                    </SheetDescription>
+                </SheetHeader>
+                <div className="min-h-0 flex-1 overflow-y-auto px-4">
+                    {trash.length === 0 ? (
+                        <p className="py-8 text-center text-sm text-muted-foreground">The trash is empty.</p>
+                    ) : (
+                        <ul className="flex flex-col divide-y">
+                            {trash.map((item) => {
+                                const Icon = item.kind === "column" ? typeIcons[item.column.type] : Rows3
+                                const { title, detail } = describe(item)
+                                return (
+                                    <li key={item.id} className="flex items-center gap-3 py-2">
+                                        <Icon className="size-4 shrink-0 text-muted-foreground" />
+                                        <div className="flex min-w-0 flex-1 flex-col">
+                                            <span className="truncate text-sm">{title}</span>
+                                            <span className="truncate text-xs text-muted-foreground">
+                                                {detail} · deleted{" "}
+                                                {formatDistanceToNow(new Date(item.deletedAt), { addSuffix: true })}
+                                            </span>
+                                        </div>
+                                        <Button variant="ghost" size="icon-xs" title="Restore" onClick={() => onRestore(item)}>
+                                            <RotateCcw />
+                                            <span className="sr-only">Restore</span>
+                                        </Button>
+                                        <Button
+                                            variant="ghost"
+                                            size="icon-xs"
+                                            title="Delete forever"
+                                            onClick={() => onDelete(item)}
+                                        >
+                                            <X />
+                                            <span className="sr-only">Delete forever</span>
+                                        </Button>
+                                    </li>
+                                )
+                            })}
+                        </ul>
+                    )}
+                </div>
+                <SheetFooter>
+                    <Button variant="destructive" disabled={trash.length === 0} onClick={onEmpty}>
+                        Empty trash
+                    </Button>
+                </SheetFooter>
+            </SheetContent>
+        </Sheet>
+    )
+}
@@ -0,0 +1,180 @@
+"use client"
+
+import { useState } from "react"
+import {
+    CalendarDays,
+    ChartGantt,
+    Copy,
+    GalleryVerticalEnd,
+    MoreHorizontal,
+    Pencil,
+    Plus,
+    SquareKanban,
+    Table2,
+    Trash2,
+} from "lucide-react"
+
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogFooter,
+    DialogDescription,
+} from "@/components/ui/dialog"
+import { type SavedView, type ViewType, VIEW_TYPES, VIEW_TYPE_LABELS } from "@/lib/views"
+
+interface ViewTabsProps {
+    views: SavedView[]
+    activeViewId: string
+    onSelect: (id: string) => void
+    onCreate: (type: ViewType) => void
+    onRename: (id: string, name: string) => void
+    onDuplicate: (id: string) => void
+    onDelete: (id: string) => void
+}
+
+export const viewIcons: Record<ViewType, React.ComponentType<{ className?: string }>> = {
+    grid: Table2,
+    board: SquareKanban,
+    calendar: CalendarDays,
+    gallery: GalleryVerticalEnd,
+    timeline: ChartGantt,
+}
+
+export const ViewTabs = ({
+    views,
+    activeViewId,
+    onSelect,
+    onCreate,
+    onRename,
+    onDuplicate,
+    onDelete,
+}: ViewTabsProps) => {
+    const [renaming, setRenaming] = useState(false)
+    const [name, setName] = useState("")
+
+    const activeView = views.find((v) => v.id === activeViewId)
+    const trimmed = name.trim()
+    const nameTaken = views.some((v) => v.id !== activeViewId && v.name === trimmed)
+
+    const handleRename = () => {
+        if (!activeView || !trimmed || nameTaken) return
+        onRename(activeView.id, trimmed)
+        setRenaming(false)
+    }
+
+    return (
+        <div className="flex items-center gap-1">
+            <Tabs value={activeViewId} onValueChange={onSelect}>
+                <TabsList>
+                    {views.map((v) => {
+                        const Icon = viewIcons[v.type]
+                        return (
+                            <TabsTrigger key={v.id} value={v.id}>
+                                <Icon />
+                                {v.name}
+                            </TabsTrigger>
+                        )
+                    })}
+                </TabsList>
+            </Tabs>
+            <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="icon-xs">
+                        <MoreHorizontal />
+                        <span className="sr-only">View options</span>
+                    </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="start">
+                    <DropdownMenuItem
+                        onClick={() => {
+                            setName(activeView?.name ?? "")
+                            setRenaming(true)
+                        }}
+                    >
+                        <Pencil />
+                        Rename view
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => onDuplicate(activeViewId)}>
+                        <Copy />
+                        Duplicate view
+                    </DropdownMenuItem>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem
+                        variant="destructive"
+                        disabled={views.length <= 1}
+                        onClick={() => onDelete(activeViewId)}
+                    >
+                        <Trash2 />
+                        Delete view
+                    </DropdownMenuItem>
+                </DropdownMenuContent>
+            </DropdownMenu>
+            <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="icon-xs">
+                        <Plus />
+                        <span className="sr-only">Add view</span>
+                    </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="start">
+                    {VIEW_TYPES.map((t) => {
+                        const Icon = viewIcons[t]
+                        return (
+                            <DropdownMenuItem key={t} onClick={() => onCreate(t)}>
+                                <Icon />
+                                {VIEW_TYPE_LABELS[t]}
+                            </DropdownMenuItem>
+                        )
+                    })}
+                </DropdownMenuContent>
+            </DropdownMenu>
+
+            <Dialog open={renaming} onOpenChange={setRenaming}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Rename view</DialogTitle>
+                        <DialogDescription>Enter a new name for this view.</DialogDescription>
+                    </DialogHeader>
+                    <form
+                        onSubmit={(e) => {
+                            e.preventDefault()
+                            handleRename()
+                        }}
+                        className="flex flex-col gap-4"
+                    >
+                        <Input
+                            placeholder="View name"
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            aria-invalid={nameTaken}
+                            autoFocus
+                        />
+                        {nameTaken && (
+                            <p className="text-xs text-destructive">A view with this name already exists.</p>
+                        )}
+                        <DialogFooter>
+                            <Button type="button" variant="outline" onClick={() => setRenaming(false)}>
+                                Cancel
+                            </Button>
+                            <Button type="submit" disabled={!trimmed || nameTaken}>
+                                Save
+                            </Button>
+                        </DialogFooter>
+                    </form>
+                </DialogContent>
+            </Dialog>
+        </div>
+    )
+}
@@ -0,0 +1,380 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import type { Row as TableRow } from "@tanstack/react-table"
+import { type ColumnConfig, isComputedType } from "@/lib/column-types"
+import { parseTsv, toTsv } from "@/lib/clipboard"
+
+type Row = Record<string, unknown>
+
+export interface CellPosition {
+    rowId: string
+    columnId: string
+}
+
+interface ActiveCellOptions {
+    /** Rows in the order they're displayed, skipping collapsed groups. */
+    rows: TableRow<Row>[]
+    /** Visible data columns in display order. */
+    columnIds: string[]
+    configsByKey: Map<string, ColumnConfig>
+    onCellChange: (rowIndex: number, key: string, value: unknown) => void
+    /** The text a cell contributes to a copied range. */
+    getCellText: (row: TableRow<Row>, columnId: string) => string
+    /** Writes a block of pasted cells with its top-left corner at `start`. */
+    onPaste: (start: CellPosition, values: string[][]) => void
+}
+
+const isTextEntry = (el: EventTarget): el is HTMLInputElement | HTMLTextAreaElement =>
+    el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement
+
+const isSamePosition = (a: CellPosition | null, b: CellPosition | null) =>
+    a?.rowId === b?.rowId && a?.columnId === b?.columnId
+
+const getPosition = (target: EventTarget): [HTMLElement, CellPosition] | null => {
+    const cell = (target as HTMLElement).closest?.<HTMLElement>("[data-column-id]")
+    if (!cell) return null
+    return [cell, { rowId: cell.dataset.rowId ?? "", columnId: cell.dataset.columnId ?? "" }]
+}
+
+const clamp = (value: number, max: number) => Math.min(Math.max(value, 0), max)
+
+/**
+ * Spreadsheet-style cursor for the grid. Cells stay live editors; the active cell is
+ * the one holding focus, and it's "editing" while focus sits in one of its text inputs.
+ * Arrows, Tab and Enter move the cursor between cells, Enter or typing starts editing,
+ * and Escape puts back the value the cell had when editing started.
+ *
+ * Shift+arrows, shift-click and dragging stretch a rectangular range from the active
+ * cell, which copies as TSV; pasting TSV writes from the range's top-left corner.
+ *
+ * Keys are handled in the capture phase so a focused popover trigger (e.g. a select
+ * that focus returned to) doesn't swallow arrows and Enter before the grid sees them.
+ *
+ * The grid only renders cells near the scrolled area, so moving to a cell that isn't
+ * rendered marks it active first and focuses it once the grid renders it.
+ */
+export const useActiveCell = ({
+    rows,
+    columnIds,
+    configsByKey,
+    onCellChange,
+    getCellText,
+    onPaste,
+}: ActiveCellOptions) => {
+    const gridRef = useRef<HTMLDivElement>(null)
+    const [activeCell, setActiveCell] = useState<CellPosition | null>(null)
+    // The corner of the range opposite the active cell; null when only the active cell is selected.
+    const [rangeEnd, setRangeEnd] = useState<CellPosition | null>(null)
+    const snapshotRef = useRef<(CellPosition & { value: unknown }) | null>(null)
+    const draggingRef = useRef(false)
+    // A cell moved to before it was rendered; `focus` is false when it only needs scrolling to.
+    const revealRef = useRef<{ position: CellPosition; focus: boolean } | null>(null)
+
+    const rowsById = useMemo(() => new Map(rows.map((r) => [r.id, r])), [rows])
+    const rowIds = useMemo(() => rows.map((r) => r.id), [rows])
+
+    const range = useMemo(() => {
+        if (!activeCell) return null
+        const end = rangeEnd ?? activeCell
+        const [r1, r2] = [rowIds.indexOf(activeCell.rowId), rowIds.indexOf(end.rowId)]
+        const [c1, c2] = [columnIds.indexOf(activeCell.columnId), columnIds.indexOf(end.columnId)]
+        if (r1 === -1 || r2 === -1 || c1 === -1 || c2 === -1) return null
+        return {
+            rowIds: rowIds.slice(Math.min(r1, r2), Math.max(r1, r2) + 1),
+            columnIds: columnIds.slice(Math.min(c1, c2), Math.max(c1, c2) + 1),
+        }
+    }, [activeCell, rangeEnd, rowIds, columnIds])
+
+    const isMultiCell = !!range && range.rowIds.length * range.columnIds.length > 1
+
+    const findCell = useCallback((position: CellPosition) =>
+        gridRef.current?.querySelector<HTMLElement>(
+            `[data-row-id="${CSS.escape(position.rowId)}"][data-column-id="${CSS.escape(position.columnId)}"]`
+        ) ?? null, [])
+
+    // Returns false at the edge of the grid so Tab can leave it as usual.
+    const move = useCallback((from: CellPosition, rowDelta: number, colDelta: number, wrap = false): boolean => {
+        let rowIndex = rowIds.indexOf(from.rowId) + rowDelta
+        let colIndex = columnIds.indexOf(from.columnId) + colDelta
+        if (wrap && colIndex >= columnIds.length) {
+            rowIndex++
+            colIndex = 0
+        } else if (wrap && colIndex < 0) {
+            rowIndex--
+            colIndex = columnIds.length - 1
+        }
+        if (rowIndex < 0 || rowIndex >= rowIds.length || colIndex < 0 || colIndex >= columnIds.length) return false
+        const next = { rowId: rowIds[rowIndex], columnId: columnIds[colIndex] }
+        const cell = findCell(next)
+        if (cell) {
+            cell.focus()
+        } else {
+            setActiveCell(next)
+            setRangeEnd(null)
+            revealRef.current = { position: next, focus: true }
+        }
+        return true
+    }, [rowIds, columnIds, findCell])
+
+    const extendRange = useCallback((rowDelta: number, colDelta: number) => {
+        if (!activeCell) return
+        const from = rangeEnd ?? activeCell
+        const next = {
+            rowId: rowIds[clamp(rowIds.indexOf(from.rowId) + rowDelta, rowIds.length - 1)],
+            columnId: columnIds[clamp(columnIds.indexOf(from.columnId) + colDelta, columnIds.length - 1)],
+        }
+        if (isSamePosition(next, from)) return
+        setRangeEnd(isSamePosition(next, activeCell) ? null : next)
+        revealRef.current = { position: next, focus: false }
+    }, [activeCell, rangeEnd, rowIds, columnIds])
+
+    // Runs after every render, since that's when a cell moved to can first be found.
+    useEffect(() => {
+        const pending = revealRef.current
+        const cell = pending && findCell(pending.position)
+        if (!cell) return
+        revealRef.current = null
+        if (pending.focus) cell.focus()
+        else cell.scrollIntoView({ block: "nearest", inline: "nearest" })
+    })
+
+    const startEditing = useCallback((cell: HTMLElement, position: CellPosition, typing: boolean) => {
+        const config = configsByKey.get(position.columnId)
+        const row = rowsById.get(position.rowId)
+        if (!config || !row || isComputedType(config.type)) return
+
+        if (config.type === "checkbox") {
+            if (!typing) onCellChange(row.index, config.key, !row.original[config.key])
+            return
+        }
+
+        const input = cell.querySelector("input, textarea")
+        if (input && isTextEntry(input)) {
+            input.focus()
+            // Typing replaces the value; the keystroke lands in the input once it has focus.
+            if (typing) input.select()
+            else if (input.selectionStart !== null) input.setSelectionRange(input.value.length, input.value.length)
+            return
+        }
+
+        if (typing) return
+        const trigger = cell.querySelector<HTMLButtonElement>('button[role="combobox"], button[aria-haspopup]')
+        if (!trigger) return
+        trigger.focus()
+        // Radix selects open from their own keydown handler rather than on click.
+        if (trigger.getAttribute("role") === "combobox") {
+            trigger.dispatchEvent(new KeyboardEvent("keydown", { key: "Enter", bubbles: true }))
+        } else {
+            trigger.click()
+        }
+    }, [configsByKey, rowsById, onCellChange])
+
+    const handleFocusCapture = useCallback((e: React.FocusEvent<HTMLElement>) => {
+        const hit = getPosition(e.target)
+        if (!hit) return
+        const [, position] = hit
+        if (!isSamePosition(activeCell, position)) {
+            setActiveCell(position)
+            setRangeEnd(null)
+        }
+
+        if (!isTextEntry(e.target)) return
+        if (!isSamePosition(snapshotRef.current, position)) {
+            snapshotRef.current = { ...position, value: rowsById.get(position.rowId)?.original[position.columnId] }
+        }
+    }, [activeCell, rowsById])
+
+    const handleKeyDownCapture = useCallback((e: React.KeyboardEvent<HTMLElement>) => {
+        // Skip the synthetic Enter dispatched to open a select.
+        if (!e.nativeEvent.isTrusted || e.nativeEvent.isComposing) return
+        const hit = getPosition(e.target)
+        if (!hit) return
+        const [cell, position] = hit
+        const target = e.target as HTMLElement
+
+        const handled = () => {
+            e.preventDefault()
+            e.stopPropagation()
+        }
+
+        if (isTextEntry(target)) {
+            // Leave Enter and Escape to an open option list.
+            if (target.getAttribute("aria-expanded") === "true") return
+            switch (e.key) {
+                case "Escape": {
+                    const snapshot = snapshotRef.current
+                    const row = rowsById.get(position.rowId)
+                    if (snapshot && row && isSamePosition(snapshot, position)) {
+                        onCellChange(row.index, position.columnId, snapshot.value)
+                    }
+                    snapshotRef.current = null
+                    cell.focus()
+                    handled()
+                    return
+                }
+                case "Enter":
+                    // Shift+Enter adds a line in long text.
+                    if (target instanceof HTMLTextAreaElement && e.shiftKey) return
+                    snapshotRef.current = null
+                    if (!move(position, e.shiftKey ? -1 : 1, 0)) cell.focus()
+                    handled()
+                    return
+                case "Tab":
+                    snapshotRef.current = null
+                    if (move(position, 0, e.shiftKey ? -1 : 1, true)) handled()
+                    return
+            }
+            return
+        }
+
+        const arrows: Record<string, [number, number]> = {
+            ArrowUp: [-1, 0],
+            ArrowDown: [1, 0],
+            ArrowLeft: [0, -1],
+            ArrowRight: [0, 1],
+        }
+        if (e.key in arrows) {
+            const [rowDelta, colDelta] = arrows[e.key]
+            if (e.shiftKey) {
+                extendRange(rowDelta, colDelta)
+            } else {
+                setRangeEnd(null)
+                move(position, rowDelta, colDelta)
+            }
+            handled()
+            return
+        }
+
+        switch (e.key) {
+            case "Escape":
+                if (rangeEnd) {
+                    setRangeEnd(null)
+                    handled()
+                }
+                return
+            case "Tab":
+                if (move(position, 0, e.shiftKey ? -1 : 1, true)) handled()
+                return
+            case "Enter": {
+                const config = configsByKey.get(position.columnId)
+                if (e.shiftKey || !config || isComputedType(config.type)) {
+                    move(position, e.shiftKey ? -1 : 1, 0)
+                } else {
+                    startEditing(cell, position, false)
+                }
+                handled()
+                return
+            }
+        }
+
+        if (e.key.length !== 1 || e.ctrlKey || e.metaKey || e.altKey) return
+        // Space on a focused trigger opens it natively; on the cell itself it toggles a checkbox or types.
+        if (e.key === " ") {
+            if (target !== cell) return
+            const toggle = configsByKey.get(position.columnId)?.type === "checkbox"
+            startEditing(cell, position, !toggle)
+            if (toggle) handled()
+            return
+        }
+        startEditing(cell, position, true)
+    }, [rowsById, configsByKey, rangeEnd, onCellChange, move, extendRange, startEditing])
+
+    // Shift-click extends the range without moving focus or opening the clicked cell's editor.
+    const handlePointerDownCapture = useCallback((e: React.PointerEvent<HTMLElement>) => {
+        if (e.shiftKey && activeCell && getPosition(e.target)) e.stopPropagation()
+    }, [activeCell])
+
+    const handleMouseDownCapture = useCallback((e: React.MouseEvent<HTMLElement>) => {
+        if (e.button !== 0) return
+        const hit = getPosition(e.target)
+        if (!hit) return
+        if (e.shiftKey && activeCell) {
+            const [, position] = hit
+            setRangeEnd(isSamePosition(position, activeCell) ? null : position)
+            e.preventDefault()
+            e.stopPropagation()
+            return
+        }
+        draggingRef.current = true
+    }, [activeCell])
+
+    const handleMouseOver = useCallback((e: React.MouseEvent<HTMLElement>) => {
+        if (!draggingRef.current) return
+        if (!(e.buttons & 1)) {
+            draggingRef.current = false
+            return
+        }
+        const hit = getPosition(e.target)
+        if (!hit || !activeCell) return
+        const [, position] = hit
+        if (isSamePosition(position, rangeEnd ?? activeCell)) return
+        setRangeEnd(isSamePosition(position, activeCell) ? null : position)
+        // Leave the editor the drag started in so the range, not the input's text, is what gets copied.
+        window.getSelection()?.removeAllRanges()
+        if (isTextEntry(document.activeElement ?? document.body)) findCell(activeCell)?.focus()
+    }, [activeCell, rangeEnd, findCell])
+
+    const handleCopy = useCallback((e: React.ClipboardEvent<HTMLElement>) => {
+        if (!range || !getPosition(e.target)) return
+        // Copying selected text inside an editor stays native.
+        if (isTextEntry(e.target) && !isMultiCell) return
+        const cells = range.rowIds.map((rowId) =>
+            range.columnIds.map((columnId) => getCellText(rowsById.get(rowId)!, columnId))
+        )
+        e.clipboardData.setData("text/plain", toTsv(cells))
+        e.preventDefault()
+    }, [range, isMultiCell, rowsById, getCellText])
+
+    const handlePaste = useCallback((e: React.ClipboardEvent<HTMLElement>) => {
+        if (!range || !getPosition(e.target)) return
+        const values = parseTsv(e.clipboardData.getData("text/plain"))
+        if (values.length === 0) return
+        const single = values.length === 1 && values[0].length === 1
+        if (isTextEntry(e.target) && single && !isMultiCell) return
+        e.preventDefault()
+        snapshotRef.current = null
+        // A single value fills the whole range, as in spreadsheets.
+        const block = single && isMultiCell
+            ? range.rowIds.map(() => range.columnIds.map(() => values[0][0]))
+            : values
+        onPaste({ rowId: range.rowIds[0], columnId: range.columnIds[0] }, block)
+    }, [range, isMultiCell, onPaste])
+
+    const rangeRowIds = useMemo(() => new Set(isMultiCell ? range!.rowIds : []), [range, isMultiCell])
+    const rangeColumnIds = useMemo(() => new Set(isMultiCell ? range!.columnIds : []), [range, isMultiCell])
+
+    const isActiveCell = useCallback(
+        (rowId: string, columnId: string) => activeCell?.rowId === rowId && activeCell.columnId === columnId,
+        [activeCell]
+    )
+
+    const isInRange = useCallback(
+        (rowId: string, columnId: string) => rangeRowIds.has(rowId) && rangeColumnIds.has(columnId),
+        [rangeRowIds, rangeColumnIds]
+    )
+
+    // Roving tabindex: one cell is reachable with Tab, the active one or else the first.
+    const tabStop = activeCell && rowsById.has(activeCell.rowId) && columnIds.includes(activeCell.columnId)
+        ? activeCell
+        : rowIds.length > 0 && columnIds.length > 0
+            ? { rowId: rowIds[0], columnId: columnIds[0] }
+            : null
+
+    const getCellProps = (rowId: string, columnId: string) => ({
+        "data-row-id": rowId,
+        "data-column-id": columnId,
+        tabIndex: tabStop?.rowId === rowId && tabStop.columnId === columnId ? 0 : -1,
+    })
+
+    const gridProps = {
+        ref: gridRef,
+        onFocusCapture: handleFocusCapture,
+        onKeyDownCapture: handleKeyDownCapture,
+        onPointerDownCapture: handlePointerDownCapture,
+        onMouseDownCapture: handleMouseDownCapture,
+        onMouseOver: handleMouseOver,
+        onCopy: handleCopy,
+        onPaste: handlePaste,
+    }
+
+    return { activeCell, rangeEnd, isMultiCell, isActiveCell, isInRange, getCellProps, gridProps }
+}
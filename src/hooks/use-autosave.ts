@@ -0,0 +1,114 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+import { toast } from "sonner"
+import { type TableData } from "@/lib/base"
+import { type StorageAdapter, loadBase, saveBase } from "@/lib/storage"
+
+export type SaveStatus = "loading" | "saving" | "saved" | "error"
+
+/** Changes within this long of each other are written in one save. */
+const SAVE_DELAY_MS = 500
+
+/**
+ * Saves `tables` whenever they settle. Normally the tables passed on the first render are
+ * taken to be what storage already holds, as when the page loaded them on the server, so
+ * they aren't saved again or loaded over later edits. With `restoreOnMount`, the saved
+ * tables are instead restored through `onRestore` once on mount; nothing is saved until
+ * that finishes, so the initial tables never overwrite saved ones, and nothing at all if
+ * the saved data can't be read. Changes show right away; if saving them fails, the stored
+ * copy is restored through `onRestore` in their place.
+ */
+export const useAutosave = (
+    tables: TableData[],
+    storage: StorageAdapter,
+    onRestore: (tables: TableData[]) => void,
+    restoreOnMount = false
+) => {
+    const [status, setStatus] = useState<SaveStatus>(restoreOnMount ? "loading" : "saved")
+    const [error, setError] = useState<Error | null>(null)
+    const [ready, setReady] = useState(!restoreOnMount)
+    // The tables last handed to storage or restored from it.
+    const savedRef = useRef<TableData[] | null>(restoreOnMount ? null : tables)
+    const pendingRef = useRef<TableData[] | null>(null)
+    const onRestoreRef = useRef(onRestore)
+
+    useEffect(() => {
+        onRestoreRef.current = onRestore
+    }, [onRestore])
+
+    useEffect(() => {
+        if (!restoreOnMount) return
+        let cancelled = false
+        loadBase(storage).then(
+            (restored) => {
+                if (cancelled) return
+                if (restored) {
+                    savedRef.current = restored
+                    onRestoreRef.current(restored)
+                }
+                setReady(true)
+                setStatus("saved")
+            },
+            (e: Error) => {
+                if (cancelled) return
+                setError(e)
+                setStatus("error")
+            }
+        )
+        return () => {
+            cancelled = true
+        }
+    }, [storage, restoreOnMount])
+
+    // After a failed save, shows what storage holds instead, unless newer changes are already
+    // waiting to be saved. If storage can't be read either, the status stays at "error".
+    const reconcile = useCallback(() => {
+        loadBase(storage).then(
+            (restored) => {
+                if (!restored || pendingRef.current) return
+                savedRef.current = restored
+                onRestoreRef.current(restored)
+                setStatus("saved")
+                toast.error("Your last changes couldn't be saved and were undone.")
+            },
+            () => {}
+        )
+    }, [storage])
+
+    const flush = useCallback(() => {
+        const next = pendingRef.current
+        if (!next) return
+        pendingRef.current = null
+        saveBase(storage, next).then(
+            () => {
+                if (pendingRef.current) return
+                setError(null)
+                setStatus("saved")
+            },
+            (e: Error) => {
+                setError(e)
+                setStatus("error")
+                if (!pendingRef.current) reconcile()
+            }
+        )
+    }, [storage, reconcile])
+
+    useEffect(() => {
+        if (!ready || tables === savedRef.current) return
+        savedRef.current = tables
+        pendingRef.current = tables
+        setStatus("saving")
+        const timer = setTimeout(flush, SAVE_DELAY_MS)
+        return () => clearTimeout(timer)
+    }, [ready, tables, flush])
+
+    // Write out a pending save when the page is closed or the base unmounts, instead of dropping it.
+    useEffect(() => {
+        window.addEventListener("pagehide", flush)
+        return () => {
+            window.removeEventListener("pagehide", flush)
+            flush()
+        }
+    }, [flush])
+
+    return { status, error }
+}
@@ -0,0 +1,24 @@
+import { useCallback } from "react"
+import { useSearchParams } from "next/navigation"
+
+const ROW_PARAM = "row"
+
+/**
+ * The id of the row open in the detail panel, kept in the URL as `?row=<id>` so it can be
+ * shared. The URL is updated through the history API, which Next picks up without a
+ * navigation. Opening a row adds a history entry, so Back closes it again; moving between
+ * rows and closing replace the current entry.
+ */
+export const useExpandedRow = () => {
+    const rowId = useSearchParams().get(ROW_PARAM)
+
+    const setRowId = useCallback((id: string | null, history: "push" | "replace" = "replace") => {
+        const url = new URL(window.location.href)
+        if (id) url.searchParams.set(ROW_PARAM, id)
+        else url.searchParams.delete(ROW_PARAM)
+        if (history === "push") window.history.pushState(null, "", url)
+        else window.history.replaceState(null, "", url)
+    }, [])
+
+    return [rowId, setRowId] as const
+}
@@ -0,0 +1,104 @@
+import { useEffect, type RefObject } from "react"
+import { type Range, type VirtualItem, defaultRangeExtractor, useVirtualizer } from "@tanstack/react-virtual"
+
+/** A rendered row or column, or the space standing in for the ones between rendered ones. */
+export type VirtualSlot =
+    | { kind: "item"; index: number; key: string }
+    | { kind: "gap"; key: string; size: number }
+
+interface GridVirtualizerOptions {
+    scrollRef: RefObject<HTMLElement | null>
+    /** Keys of the body's rows, group headers included, in display order. */
+    rowKeys: string[]
+    /** Visible columns in display order, with their widths. */
+    columnIds: string[]
+    columnWidths: number[]
+    /** Leading columns that always render, such as the ones a group header spans. */
+    pinnedColumns: number
+    /** Cells that stay rendered while scrolled out of view, so focus and edits in them survive. */
+    keepRendered: { rowIndex: number; columnIndex: number }[]
+}
+
+/** Height of a body row until it's measured. */
+const ROW_HEIGHT = 41
+/** The sticky header and footer cover this much of the scrolled area. */
+const HEADER_HEIGHT = 40
+const FOOTER_HEIGHT = 41
+/** The scrolled area assumed before it's measured, so the server renders a screenful. */
+const INITIAL_RECT = { width: 1280, height: 720 }
+
+const withIndexes = (range: Range, extra: number[]) =>
+    [...new Set([...defaultRangeExtractor(range), ...extra])]
+        .filter((i) => i >= 0 && i < range.count)
+        .sort((a, b) => a - b)
+
+// Items in order with the space before, between and after them, for spacer rows or cells to fill.
+const toSlots = (items: VirtualItem[], start: number, end: number): VirtualSlot[] => {
+    const slots: VirtualSlot[] = []
+    let offset = start
+    for (const item of items) {
+        if (item.start > offset) slots.push({ kind: "gap", key: `gap-${item.index}`, size: item.start - offset })
+        slots.push({ kind: "item", index: item.index, key: String(item.key) })
+        offset = item.end
+    }
+    if (end > offset) slots.push({ kind: "gap", key: "gap-end", size: end - offset })
+    return slots
+}
+
+/**
+ * Windowed rendering for the grid: only rows and columns near the scrolled area render,
+ * with spacers keeping the table its full size. Rows are measured once rendered and their
+ * sizes kept by key, so sorting or editing doesn't shift what's on screen.
+ */
+export const useGridVirtualizer = ({
+    scrollRef,
+    rowKeys,
+    columnIds,
+    columnWidths,
+    pinnedColumns,
+    keepRendered,
+}: GridVirtualizerOptions) => {
+    const rowVirtualizer = useVirtualizer({
+        count: rowKeys.length,
+        getScrollElement: () => scrollRef.current,
+        initialRect: INITIAL_RECT,
+        estimateSize: () => ROW_HEIGHT,
+        getItemKey: (index) => rowKeys[index],
+        overscan: 10,
+        paddingStart: HEADER_HEIGHT,
+        paddingEnd: FOOTER_HEIGHT,
+        scrollPaddingStart: HEADER_HEIGHT,
+        scrollPaddingEnd: FOOTER_HEIGHT,
+        rangeExtractor: (range) => withIndexes(range, keepRendered.map((c) => c.rowIndex)),
+    })
+
+    const columnVirtualizer = useVirtualizer({
+        horizontal: true,
+        count: columnIds.length,
+        getScrollElement: () => scrollRef.current,
+        initialRect: INITIAL_RECT,
+        estimateSize: (index) => columnWidths[index],
+        getItemKey: (index) => columnIds[index],
+        overscan: 2,
+        rangeExtractor: (range) =>
+            withIndexes(range, [
+                ...Array.from({ length: pinnedColumns }, (_, i) => i),
+                ...keepRendered.map((c) => c.columnIndex),
+            ]),
+    })
+
+    // Column sizes come from the view rather than the DOM, so they're re-read when resized.
+    const widthsKey = columnWidths.join()
+    useEffect(() => {
+        columnVirtualizer.measure()
+    }, [columnVirtualizer, widthsKey])
+
+    const rowSlots = toSlots(
+        rowVirtualizer.getVirtualItems(),
+        HEADER_HEIGHT,
+        rowVirtualizer.getTotalSize() - FOOTER_HEIGHT
+    )
+    const columnSlots = toSlots(columnVirtualizer.getVirtualItems(), 0, columnVirtualizer.getTotalSize())
+
+    return { rowSlots, columnSlots, measureRow: rowVirtualizer.measureElement }
+}
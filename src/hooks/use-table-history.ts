@@ -0,0 +1,157 @@
+import { useCallback, useRef, useState } from "react"
+import { type TableData } from "@/lib/base"
+
+/** Older steps are dropped past this many, so a long session doesn't hold every version of the rows. */
+const MAX_HISTORY = 100
+
+/** Edits to the same cell this close together undo as one step, so typing a word isn't undone letter by letter. */
+const COALESCE_MS = 1000
+
+interface HistoryStep {
+    tableId: string
+    before: TableData
+    after: TableData
+    /** Set for single-cell edits, which may merge with the next edit to the same cell. */
+    cell?: string
+    time: number
+}
+
+// The "rowId:key" of the only cell that differs between two row lists, or undefined if anything else changed.
+const getEditedCell = (before: TableData, after: TableData): string | undefined => {
+    if (
+        before.columns !== after.columns ||
+        before.trash !== after.trash ||
+        before.rows.length !== after.rows.length
+    ) {
+        return undefined
+    }
+    let cell: string | undefined
+    for (let i = 0; i < before.rows.length; i++) {
+        const [a, b] = [before.rows[i], after.rows[i]]
+        if (a === b) continue
+        if (cell !== undefined || a.id !== b.id) return undefined
+        const keys = Object.keys(b).filter((k) => a[k] !== b[k])
+        if (keys.length !== 1) return undefined
+        cell = `${String(b.id)}:${keys[0]}`
+    }
+    return cell
+}
+
+// Views are only rolled back with steps that changed them, like a column rename; sorting
+// or filtering on its own isn't recorded, so undo never reverts it.
+const restore = (current: TableData, from: TableData, to: TableData): TableData => ({
+    ...current,
+    columns: to.columns,
+    rows: to.rows,
+    trash: to.trash,
+    views: from.views !== to.views ? to.views : current.views,
+})
+
+/**
+ * Owns the base's tables and records every change to a table's columns or rows as an
+ * undoable step. Changes made in the same tick (a rename touching columns, rows and
+ * views at once) form one step. Undo and redo return the id of the table they changed.
+ */
+export const useTableHistory = (initialTables: TableData[]) => {
+    const [tables, setTables] = useState(initialTables)
+    // Kept in step with every update so consecutive updates in one handler see each other.
+    const tablesRef = useRef(initialTables)
+    const pastRef = useRef<HistoryStep[]>([])
+    const futureRef = useRef<HistoryStep[]>([])
+    const pendingRef = useRef(new Map<string, TableData>())
+    const [counts, setCounts] = useState({ past: 0, future: 0 })
+
+    const apply = useCallback((next: TableData[]) => {
+        tablesRef.current = next
+        setTables(next)
+    }, [])
+
+    const syncCounts = useCallback(() => {
+        setCounts({ past: pastRef.current.length, future: futureRef.current.length })
+    }, [])
+
+    const commit = useCallback(() => {
+        const pending = pendingRef.current
+        if (pending.size === 0) return
+        pendingRef.current = new Map()
+
+        for (const [tableId, before] of pending) {
+            const after = tablesRef.current.find((t) => t.id === tableId)
+            if (
+                !after ||
+                (after.columns === before.columns && after.rows === before.rows && after.trash === before.trash)
+            ) {
+                continue
+            }
+
+            const now = Date.now()
+            const cell = getEditedCell(before, after)
+            const last = pastRef.current[pastRef.current.length - 1]
+            if (
+                cell &&
+                last?.cell === cell &&
+                last.tableId === tableId &&
+                futureRef.current.length === 0 &&
+                now - last.time < COALESCE_MS
+            ) {
+                last.after = after
+                last.time = now
+                continue
+            }
+
+            pastRef.current = [...pastRef.current, { tableId, before, after, cell, time: now }].slice(-MAX_HISTORY)
+            futureRef.current = []
+        }
+        syncCounts()
+    }, [syncCounts])
+
+    const updateTable = useCallback((id: string, update: (table: TableData) => TableData) => {
+        const before = tablesRef.current.find((t) => t.id === id)
+        if (!before) return
+        if (pendingRef.current.size === 0) queueMicrotask(commit)
+        if (!pendingRef.current.has(id)) pendingRef.current.set(id, before)
+        apply(tablesRef.current.map((t) => (t.id === id ? update(t) : t)))
+    }, [apply, commit])
+
+    /** Replaces the tables without recording a step, e.g. to add a table. */
+    const replaceTables = useCallback((update: (tables: TableData[]) => TableData[]) => {
+        apply(update(tablesRef.current))
+    }, [apply])
+
+    /** Replaces every table and forgets the history, e.g. once saved tables are restored. */
+    const resetTables = useCallback((next: TableData[]) => {
+        pendingRef.current = new Map()
+        pastRef.current = []
+        futureRef.current = []
+        apply(next)
+        syncCounts()
+    }, [apply, syncCounts])
+
+    const step = useCallback((direction: "undo" | "redo"): string | null => {
+        commit()
+        const [from, to] = direction === "undo" ? [pastRef, futureRef] : [futureRef, pastRef]
+        const entry = from.current[from.current.length - 1]
+        if (!entry) return null
+        from.current = from.current.slice(0, -1)
+        to.current = [...to.current, { ...entry, cell: undefined }]
+
+        const [source, target] = direction === "undo" ? [entry.after, entry.before] : [entry.before, entry.after]
+        apply(tablesRef.current.map((t) => (t.id === entry.tableId ? restore(t, source, target) : t)))
+        syncCounts()
+        return entry.tableId
+    }, [apply, commit, syncCounts])
+
+    const undo = useCallback(() => step("undo"), [step])
+    const redo = useCallback(() => step("redo"), [step])
+
+    return {
+        tables,
+        updateTable,
+        replaceTables,
+        resetTables,
+        undo,
+        redo,
+        canUndo: counts.past > 0,
+        canRedo: counts.future > 0,
+    }
+}
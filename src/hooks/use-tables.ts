@@ -0,0 +1,29 @@
+import { createContext, useContext, useRef } from "react"
+import { type ColumnConfig } from "@/lib/column-types"
+import { type TableData } from "@/lib/base"
+
+/**
+ * Every table in the current base. Cells read this through context rather than
+ * through `buildColumns` so editing another table doesn't rebuild column defs.
+ */
+export const TablesContext = createContext<TableData[]>([])
+
+export const useTables = () => useContext(TablesContext)
+
+/**
+ * The tables referenced by `columnConfigs`' link columns. The returned array keeps
+ * its identity until one of those tables changes, so it can be used as a memo dependency.
+ */
+export const useLinkedTables = (columnConfigs: ColumnConfig[]): TableData[] => {
+    const tables = useTables()
+    const linkedRef = useRef<TableData[]>([])
+
+    const ids = new Set(columnConfigs.map((c) => c.link?.tableId).filter(Boolean))
+    const linked = tables.filter((t) => ids.has(t.id))
+    const prev = linkedRef.current
+    if (linked.length !== prev.length || linked.some((t, i) => t !== prev[i])) {
+        linkedRef.current = linked
+    }
+
+    return linkedRef.current
+}
@@ -0,0 +1,50 @@
+export type AggregateMode = "sum" | "average" | "median"
+
+export const AGGREGATE_LABELS: Record<AggregateMode, string> = {
+    sum: "Sum",
+    average: "Average",
+    median: "Median",
+}
+
+export const computeAggregate = (values: number[], mode: AggregateMode): number => {
+    if (values.length === 0) return 0
+    switch (mode) {
+        case "sum":
+            return values.reduce((a, b) => a + b, 0)
+        case "average":
+            return values.reduce((a, b) => a + b, 0) / values.length
+        case "median": {
+            const sorted = [...values].sort((a, b) => a - b)
+            const mid = Math.floor(sorted.length / 2)
+            return sorted.length % 2 !== 0
+                ? sorted[mid]
+                : (sorted[mid - 1] + sorted[mid]) / 2
+        }
+    }
+}
+
+export type RollupFunction = AggregateMode | "count" | "min" | "max" | "concat"
+
+export const ROLLUP_LABELS: Record<RollupFunction, string> = {
+    ...AGGREGATE_LABELS,
+    count: "Count",
+    min: "Min",
+    max: "Max",
+    concat: "Concatenate",
+}
+
+/** Aggregates the values pulled through a link; `formatted` is only used by "concat". */
+export const computeRollup = (
+    values: unknown[],
+    fn: RollupFunction,
+    format: (value: unknown) => string = String
+): number | string => {
+    const present = values.filter((v) => v != null && v !== "")
+    if (fn === "count") return present.length
+    if (fn === "concat") return present.map(format).join(", ")
+
+    const numbers = present.map(Number).filter((v) => !isNaN(v))
+    if (fn === "min") return numbers.length ? Math.min(...numbers) : ""
+    if (fn === "max") return numbers.length ? Math.max(...numbers) : ""
+    return computeAggregate(numbers, fn)
+}
@@ -0,0 +1,69 @@
+import { z } from "zod"
+import type { Row } from "@/components/columns"
+import { type ColumnConfig, COLUMN_TYPES } from "@/lib/column-types"
+import { VIEW_TYPES, withViewDefaults } from "@/lib/views"
+import type { TrashItem } from "@/lib/trash"
+import { type RowPatch, ConflictError, NotFoundError } from "@/lib/db"
+
+// Bodies are checked for the fields the database relies on; everything else passes through as sent.
+
+const columnSchema = z.looseObject({ key: z.string().trim().min(1), type: z.enum(COLUMN_TYPES) })
+
+const viewSchema = z.looseObject({ id: z.string(), name: z.string(), type: z.enum(VIEW_TYPES) })
+
+const rowSchema = z.looseObject({ id: z.string().min(1) })
+
+const trashItemSchema = z.looseObject({ id: z.string(), kind: z.enum(["column", "rows"]), deletedAt: z.string() })
+
+export const tableSchema = z.object({
+    id: z.string().min(1),
+    name: z.string().trim().min(1),
+    columns: z.array(columnSchema).transform((columns) => columns as ColumnConfig[]),
+    rows: z.array(rowSchema).transform((rows) => rows as Row[]),
+    views: z.array(viewSchema.transform(withViewDefaults)),
+    trash: z.array(trashItemSchema).transform((trash) => trash as TrashItem[]),
+})
+
+export const tableChangesSchema = tableSchema.pick({ name: true, views: true, trash: true }).partial()
+
+export const columnBodySchema = z.object({
+    column: columnSchema.transform((column) => column as ColumnConfig),
+    index: z.number().int().min(0).optional(),
+})
+
+export const columnsSchema = z.array(columnSchema).transform((columns) => columns as ColumnConfig[])
+
+export const columnConfigSchema = columnSchema.transform((column) => column as ColumnConfig)
+
+export const rowsSchema = z.object({ rows: z.array(rowSchema).transform((rows) => rows as Row[]) })
+
+export const rowPatchesSchema = z.object({
+    rows: z.array(rowSchema).transform((rows) => rows as RowPatch[]),
+    order: z.array(z.string()).optional(),
+})
+
+export const rowIdsSchema = z.object({ ids: z.array(z.string()) })
+
+export const rowPatchSchema = z.record(z.string(), z.unknown())
+
+/** The dynamic segments of a route, as Next passes them to a handler. */
+export interface RouteContext<Params> {
+    params: Promise<Params>
+}
+
+export const readBody = async <T>(request: Request, schema: z.ZodType<T, unknown>): Promise<T> =>
+    schema.parse(await request.json())
+
+/** Runs a handler, answering with its result as JSON or with the status that matches its error. */
+export const respond = async (handler: () => unknown): Promise<Response> => {
+    try {
+        const result = await handler()
+        return result === undefined ? new Response(null, { status: 204 }) : Response.json(result)
+    } catch (error) {
+        if (error instanceof NotFoundError) return Response.json({ error: error.message }, { status: 404 })
+        if (error instanceof ConflictError) return Response.json({ error: error.message }, { status: 409 })
+        if (error instanceof z.ZodError) return Response.json({ error: z.prettifyError(error) }, { status: 400 })
+        if (error instanceof SyntaxError) return Response.json({ error: "Invalid JSON" }, { status: 400 })
+        throw error
+    }
+}
@@ -0,0 +1,82 @@
+import type { Row } from "@/components/columns"
+import { type ColumnConfig, formatCellValue } from "@/lib/column-types"
+import { type SavedView, createView } from "@/lib/views"
+import type { TrashItem } from "@/lib/trash"
+
+/** One table in a base: its schema, rows, saved views and trash. Rows are identified by their `id` field. */
+export interface TableData {
+    id: string
+    name: string
+    columns: ColumnConfig[]
+    rows: Row[]
+    views: SavedView[]
+    /** Deleted columns and rows, newest first. */
+    trash: TrashItem[]
+}
+
+export const getRowId = (row: Row): string => String(row.id ?? "")
+
+/** Link cells always hold an array of row ids, even for single links. */
+export const toLinkIds = (value: unknown): string[] => {
+    if (Array.isArray(value)) return value.map(String)
+    if (value == null || value === "") return []
+    return [String(value)]
+}
+
+/** The first column of a table names its rows wherever they are referenced. */
+export const getPrimaryColumn = (table: TableData): ColumnConfig | undefined => table.columns[0]
+
+export const getRowTitle = (table: TableData, row: Row): string => {
+    const primary = getPrimaryColumn(table)
+    const title = primary ? formatCellValue(row[primary.key], primary.type) : ""
+    return title || "Untitled"
+}
+
+export const findTable = (tables: TableData[], id: string | undefined): TableData | undefined =>
+    id ? tables.find((t) => t.id === id) : undefined
+
+export const createTable = (tables: TableData[]): TableData => {
+    let name = "Table"
+    let i = 2
+    while (tables.some((t) => t.name === name)) {
+        name = `Table ${i}`
+        i++
+    }
+    return {
+        id: crypto.randomUUID(),
+        name,
+        columns: [{ key: "Name", type: "text" }],
+        rows: [],
+        views: [createView([], "grid")],
+        trash: [],
+    }
+}
+
+/** The base a new database, or a browser with nothing saved yet, starts with. */
+export const createSeedTables = (): TableData[] => [
+    {
+        id: "orders",
+        name: "Orders",
+        columns: [
+            { key: "status", type: "text" },
+            { key: "email", type: "email" },
+            { key: "amount", type: "currency" },
+            { key: "customer", type: "link", link: { tableId: "customers", multiple: false } },
+        ],
+        rows: [{ id: "728ed52f", amount: 100, status: "pending", email: "m@example.com", customer: ["c7a1f3e0"] }],
+        views: [createView([], "grid")],
+        trash: [],
+    },
+    {
+        id: "customers",
+        name: "Customers",
+        columns: [
+            { key: "name", type: "text" },
+            { key: "email", type: "email" },
+            { key: "phone", type: "phone" },
+        ],
+        rows: [{ id: "c7a1f3e0", name: "Morgan Lee", email: "m@example.com", phone: "5555550123" }],
+        views: [createView([], "grid")],
+        trash: [],
+    },
+]
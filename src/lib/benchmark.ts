@@ -0,0 +1,69 @@
+import type { Row } from "@/components/columns"
+import { type ColumnConfig, OPTION_COLORS } from "@/lib/column-types"
+import { type TableData } from "@/lib/base"
+import { createView } from "@/lib/views"
+
+/** Rows in the benchmark table unless the page asks for another count. */
+export const BENCHMARK_ROW_COUNT = 100_000
+
+const STATUSES = ["Backlog", "Todo", "In progress", "In review", "Done"]
+const TAGS = ["Design", "Frontend", "Backend", "Infra", "Docs", "Research"]
+const WORDS = ["alpha", "bravo", "charlie", "delta", "echo", "foxtrot", "golf", "hotel", "india", "juliet"]
+
+const toOptions = (labels: string[]) =>
+    labels.map((label, i) => ({ label, color: OPTION_COLORS[i % OPTION_COLORS.length].value }))
+
+const COLUMNS: ColumnConfig[] = [
+    { key: "Name", type: "text" },
+    { key: "Status", type: "select", options: toOptions(STATUSES) },
+    { key: "Tags", type: "multi_select", options: toOptions(TAGS) },
+    { key: "Estimate", type: "number" },
+    { key: "Budget", type: "currency" },
+    { key: "Progress", type: "percent" },
+    { key: "Due", type: "date" },
+    { key: "Done", type: "checkbox" },
+    { key: "Owner", type: "email" },
+    { key: "Notes", type: "long_text" },
+    { key: "Spent", type: "formula", formula: "{Budget} * {Progress} / 100" },
+]
+
+// mulberry32: a small seeded generator, so every run of the benchmark sees the same rows.
+const createRandom = (seed: number) => () => {
+    seed = (seed + 0x6d2b79f5) | 0
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+}
+
+/**
+ * A table of generated rows covering the common column types and a formula, for trying the
+ * grid at scale. The same `rowCount` and `seed` always give the same rows.
+ */
+export const createBenchmarkTable = (rowCount = BENCHMARK_ROW_COUNT, seed = 1): TableData => {
+    const random = createRandom(seed)
+    const pick = <T>(items: T[]) => items[Math.floor(random() * items.length)]
+    const start = Date.UTC(2026, 0, 1)
+
+    const rows = Array.from({ length: rowCount }, (_, i): Row => ({
+        id: `row-${i}`,
+        Name: `${pick(WORDS)} ${pick(WORDS)} ${i + 1}`,
+        Status: pick(STATUSES),
+        Tags: TAGS.filter(() => random() < 0.25),
+        Estimate: Math.floor(random() * 13) + 1,
+        Budget: Math.round(random() * 1_000_000) / 100,
+        Progress: Math.floor(random() * 101),
+        Due: new Date(start + Math.floor(random() * 365) * 86_400_000).toISOString(),
+        Done: random() < 0.3,
+        Owner: `${pick(WORDS)}@example.com`,
+        Notes: random() < 0.5 ? `${pick(WORDS)} ${pick(WORDS)} ${pick(WORDS)}` : "",
+    }))
+
+    return {
+        id: "benchmark",
+        name: `Benchmark (${rowCount.toLocaleString()} rows)`,
+        columns: COLUMNS,
+        rows,
+        views: [createView([], "grid")],
+        trash: [],
+    }
+}
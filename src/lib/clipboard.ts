@@ -0,0 +1,118 @@
+import { isValid, parse, parseISO } from "date-fns"
+import { type ColumnConfig, formatCellValue, isComputedType, toOptionLabels } from "@/lib/column-types"
+import { type TableData, findTable, getRowId, getRowTitle, toLinkIds } from "@/lib/base"
+import { parseDelimited, toCsv } from "@/lib/csv"
+
+/** Splits tab-separated text as spreadsheets put it on the clipboard, with quoted cells for tabs and newlines. */
+export const parseTsv = (text: string): string[][] => parseDelimited(text, "\t")
+
+export const toTsv = (cells: string[][]): string => toCsv(cells, "\t", "\n")
+
+/** The text a cell copies as: what it displays, with checkboxes and links spelled out for other apps. */
+export const formatCellText = (value: unknown, config: ColumnConfig, tables: TableData[]): string => {
+    if (config.type === "checkbox") return value ? "TRUE" : "FALSE"
+    if (config.type === "link") {
+        const target = findTable(tables, config.link?.tableId)
+        if (!target) return ""
+        return toLinkIds(value)
+            .map((id) => target.rows.find((r) => getRowId(r) === id))
+            .filter((r) => r !== undefined)
+            .map((r) => getRowTitle(target, r))
+            .join(", ")
+    }
+    return formatCellValue(value, config.type)
+}
+
+const TRUE_TEXT = new Set(["true", "yes", "y", "1", "x", "checked", "✓", "✔"])
+const FALSE_TEXT = new Set(["", "false", "no", "n", "0", "unchecked", "off"])
+
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+// Any punctuation phone numbers are written with, around 7 to 15 digits.
+const PHONE_TEXT_PATTERN = /^\+?[\d\s().-]+$/
+const PHONE_DIGITS = { min: 7, max: 15 }
+
+const DATE_FORMATS = ["M/d/yyyy", "M/d/yy", "MMM d, yyyy", "MMMM d, yyyy", "d MMM yyyy"]
+
+const parseDateText = (text: string): Date | null => {
+    const iso = parseISO(text)
+    if (isValid(iso)) return iso
+    for (const format of DATE_FORMATS) {
+        const date = parse(text, format, new Date())
+        if (isValid(date)) return date
+    }
+    return null
+}
+
+// Accepts "$1,234.50", "(12)", "45%" and the like.
+const parseNumberText = (text: string): number | null => {
+    const negative = /^\(.*\)$/.test(text)
+    const cleaned = text.replace(/[$,%\s()]/g, "")
+    if (cleaned === "") return null
+    const num = Number(cleaned)
+    if (isNaN(num)) return null
+    return negative ? -num : num
+}
+
+// Matches labels case-insensitively so "high" lands on the "High" option; unknown labels are kept as typed.
+const toOptionLabel = (text: string, config: ColumnConfig): string =>
+    config.options?.find((o) => o.label.toLowerCase() === text.toLowerCase())?.label ?? text
+
+/**
+ * Turns pasted text into a value for `config`'s column, or `undefined` when the text
+ * doesn't fit the type (the cell then keeps its value), such as a checkbox that reads as
+ * neither checked nor unchecked. Computed columns never take input.
+ */
+export const parseCellText = (text: string, config: ColumnConfig, tables: TableData[]): unknown => {
+    const trimmed = text.trim()
+    if (isComputedType(config.type)) return undefined
+
+    switch (config.type) {
+        case "checkbox": {
+            const lower = trimmed.toLowerCase()
+            if (TRUE_TEXT.has(lower)) return true
+            return FALSE_TEXT.has(lower) ? false : undefined
+        }
+        case "number":
+        case "currency":
+        case "percent": {
+            if (trimmed === "") return ""
+            return parseNumberText(trimmed) ?? undefined
+        }
+        case "date": {
+            if (trimmed === "") return ""
+            return parseDateText(trimmed)?.toISOString()
+        }
+        case "phone": {
+            if (trimmed === "") return ""
+            const digits = trimmed.replace(/\D/g, "")
+            const fits = PHONE_TEXT_PATTERN.test(trimmed) &&
+                digits.length >= PHONE_DIGITS.min && digits.length <= PHONE_DIGITS.max
+            return fits ? digits : undefined
+        }
+        case "email":
+            return trimmed === "" || EMAIL_PATTERN.test(trimmed) ? trimmed : undefined
+        case "select":
+            return trimmed === "" ? "" : toOptionLabel(trimmed, config)
+        case "multi_select":
+            return toOptionLabels(
+                trimmed
+                    .split(/[,;]/)
+                    .map((l) => l.trim())
+                    .filter(Boolean)
+                    .map((l) => toOptionLabel(l, config))
+            )
+        case "link": {
+            const target = findTable(tables, config.link?.tableId)
+            if (!target) return undefined
+            const titles = trimmed.split(",").map((t) => t.trim().toLowerCase()).filter(Boolean)
+            const ids = target.rows
+                .filter((r) => titles.includes(getRowTitle(target, r).toLowerCase()))
+                .map(getRowId)
+            return config.link?.multiple ? ids : ids.slice(0, 1)
+        }
+        case "long_text":
+            return text
+        default:
+            return trimmed
+    }
+}
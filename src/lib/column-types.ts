@@ -1,14 +1,22 @@
+import type { RollupFunction } from "@/lib/aggregates"
+
 export const COLUMN_TYPES = [
     "text",
     "long_text",
     "checkbox",
     "select",
+    "multi_select",
     "date",
     "number",
     "phone",
     "email",
+    "url",
     "currency",
     "percent",
+    "formula",
+    "link",
+    "lookup",
+    "rollup",
 ] as const
 
 export type ColumnType = (typeof COLUMN_TYPES)[number]
@@ -31,10 +39,26 @@ export const OPTION_COLORS = [
     { name: "Pink", value: "#ec4899" },
 ] as const
 
+export interface LinkConfig {
+    /** Id of the table whose rows this column references. */
+    tableId: string
+    multiple: boolean
+}
+
+/** Pulls `field` from the rows referenced by the link column `linkKey`; rollups also aggregate it. */
+export interface LookupConfig {
+    linkKey: string
+    field: string
+    aggregate?: RollupFunction
+}
+
 export interface ColumnConfig {
     key: string
     type: ColumnType
     options?: SelectOption[]
+    formula?: string
+    link?: LinkConfig
+    lookup?: LookupConfig
 }
 
 export const COLUMN_TYPE_LABELS: Record<ColumnType, string> = {
@@ -42,18 +66,76 @@ export const COLUMN_TYPE_LABELS: Record<ColumnType, string> = {
     long_text: "Long text",
     checkbox: "Checkbox",
     select: "Select",
+    multi_select: "Multi-select",
     date: "Date",
     number: "Number",
     phone: "Phone number",
     email: "Email",
+    url: "URL",
     currency: "Currency",
     percent: "Percent",
+    formula: "Formula",
+    link: "Link to table",
+    lookup: "Lookup",
+    rollup: "Rollup",
+}
+
+/** Types whose cells pick from `ColumnConfig.options`. */
+export const hasOptions = (type: ColumnType): boolean => type === "select" || type === "multi_select"
+
+/** Adds any of `labels` missing from the column's options, cycling through the option colors. */
+export const addOptionLabels = (config: ColumnConfig, labels: string[]): ColumnConfig => {
+    const options = [...(config.options ?? [])]
+    for (const label of labels) {
+        if (options.some((o) => o.label === label)) continue
+        options.push({ label, color: OPTION_COLORS[options.length % OPTION_COLORS.length].value })
+    }
+    return options.length === (config.options?.length ?? 0) ? config : { ...config, options }
+}
+
+/** Moves column `key` to the `side` of `targetKey`, leaving every other column in place. */
+export const moveColumn = (
+    columns: ColumnConfig[],
+    key: string,
+    targetKey: string,
+    side: "left" | "right"
+): ColumnConfig[] => {
+    const moving = columns.find((c) => c.key === key)
+    const rest = columns.filter((c) => c.key !== key)
+    const index = rest.findIndex((c) => c.key === targetKey)
+    if (!moving || index === -1) return columns
+    const at = side === "left" ? index : index + 1
+    return [...rest.slice(0, at), moving, ...rest.slice(at)]
 }
 
+/** Multi-select cells hold an array of option labels. */
+export const toOptionLabels = (value: unknown): string[] => {
+    if (Array.isArray(value)) return value.map(String)
+    if (value == null || value === "") return []
+    return [String(value)]
+}
+
+/**
+ * Fits an existing select or multi-select value to a new options list and
+ * cardinality: removed options are dropped and single values become arrays and back.
+ */
+export const reconcileOptionValue = (value: unknown, type: ColumnType, options: SelectOption[]): unknown => {
+    const allowed = new Set(options.map((o) => o.label))
+    const labels = toOptionLabels(value).filter((label) => allowed.has(label))
+    return type === "multi_select" ? labels : labels[0] ?? ""
+}
+
+/** Types whose values are derived by the table rather than entered by hand. */
+export const isComputedType = (type: ColumnType): boolean =>
+    type === "formula" || type === "lookup" || type === "rollup"
+
 export const getDefaultValue = (type: ColumnType): unknown => {
     switch (type) {
         case "checkbox":
             return false
+        case "link":
+        case "multi_select":
+            return []
         case "number":
         case "currency":
         case "percent":
@@ -63,8 +145,16 @@ export const getDefaultValue = (type: ColumnType): unknown => {
     }
 }
 
+/** Date cells store ISO strings; returns null for empty or unparseable values. */
+export const parseDateValue = (value: unknown): Date | null => {
+    if (value == null || value === "") return null
+    const date = new Date(String(value))
+    return isNaN(date.getTime()) ? null : date
+}
+
 export const formatCellValue = (value: unknown, type: ColumnType): string => {
     if (value == null || value === "") return ""
+    if (Array.isArray(value)) return value.map(String).join(", ")
 
     switch (type) {
         case "currency": {
@@ -97,6 +187,17 @@ export const formatCellValue = (value: unknown, type: ColumnType): string => {
             if (isNaN(num)) return String(value)
             return num.toLocaleString()
         }
+        case "formula":
+        case "rollup": {
+            if (typeof value === "number") {
+                return value.toLocaleString("en-US", { maximumFractionDigits: 2 })
+            }
+            if (typeof value === "boolean") return value ? "TRUE" : "FALSE"
+            if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}T/.test(value)) {
+                return formatCellValue(value, "date")
+            }
+            return String(value)
+        }
         default:
             return String(value)
     }
@@ -0,0 +1,299 @@
+import { type ColumnConfig, type ColumnType, formatCellValue } from "@/lib/column-types"
+import { computeRollup } from "@/lib/aggregates"
+import { type TableData, findTable, getRowId, toLinkIds } from "@/lib/base"
+import {
+    type FormulaNode,
+    type FormulaValue,
+    FormulaError,
+    evaluateFormula,
+    getFormulaDependencies,
+    parseFormula,
+    renameFormulaReference,
+} from "@/lib/formula"
+
+type RowData = Record<string, unknown>
+
+export interface ComputedPlan {
+    /** Computed column keys, each listed after every computed column it references. */
+    order: string[]
+    /** Config of every formula, lookup and rollup column, by key. */
+    columns: Map<string, ColumnConfig>
+    formulas: Map<string, FormulaNode>
+    /** Columns that can't be evaluated at all, e.g. parse errors, broken references or cycles. */
+    errors: Map<string, FormulaError>
+    /** For each column key, the computed columns that read it directly. */
+    dependents: Map<string, string[]>
+}
+
+/** Other tables in the base, needed to resolve lookups and rollups. */
+export interface ComputeContext {
+    tables: TableData[]
+}
+
+const getDependencies = (
+    config: ColumnConfig,
+    configsByKey: Map<string, ColumnConfig>,
+    formulas: Map<string, FormulaNode>
+): string[] => {
+    if (config.type === "formula") {
+        const ast = parseFormula(config.formula ?? "")
+        formulas.set(config.key, ast)
+        return getFormulaDependencies(ast)
+    }
+
+    const linkKey = config.lookup?.linkKey ?? ""
+    const link = configsByKey.get(linkKey)
+    if (!link || link.type !== "link") {
+        throw new FormulaError("#REF!", `"${linkKey}" is not a link column`)
+    }
+    return [linkKey]
+}
+
+export const planComputedColumns = (columnConfigs: ColumnConfig[]): ComputedPlan => {
+    const configsByKey = new Map(columnConfigs.map((c) => [c.key, c]))
+    const columns = new Map<string, ColumnConfig>()
+    const formulas = new Map<string, FormulaNode>()
+    const errors = new Map<string, FormulaError>()
+    const dependencies = new Map<string, string[]>()
+    const dependents = new Map<string, string[]>()
+
+    for (const config of columnConfigs) {
+        if (config.type !== "formula" && config.type !== "lookup" && config.type !== "rollup") continue
+        columns.set(config.key, config)
+        try {
+            const deps = getDependencies(config, configsByKey, formulas)
+            const missing = deps.find((d) => !configsByKey.has(d))
+            if (missing) throw new FormulaError("#REF!", `Unknown column "${missing}"`)
+            dependencies.set(config.key, deps)
+            for (const dep of deps) {
+                dependents.set(dep, [...(dependents.get(dep) ?? []), config.key])
+            }
+        } catch (e) {
+            errors.set(config.key, e instanceof FormulaError ? e : new FormulaError("#ERROR!", String(e)))
+        }
+    }
+
+    // Depth-first topological sort; a back edge to a column still on the stack is a cycle.
+    const order: string[] = []
+    const state = new Map<string, "visiting" | "done">()
+    const stack: string[] = []
+
+    const visit = (key: string) => {
+        if (state.get(key) === "done") return
+        if (state.get(key) === "visiting") {
+            for (const member of stack.slice(stack.indexOf(key))) {
+                errors.set(member, new FormulaError("#CYCLE!", "Formula references itself"))
+            }
+            return
+        }
+        state.set(key, "visiting")
+        stack.push(key)
+        for (const dep of dependencies.get(key) ?? []) {
+            if (dependencies.has(dep)) visit(dep)
+        }
+        stack.pop()
+        state.set(key, "done")
+        order.push(key)
+    }
+
+    for (const key of dependencies.keys()) visit(key)
+
+    return { order: order.filter((k) => !errors.has(k)), columns, formulas, errors, dependents }
+}
+
+/** Every computed column that must be re-evaluated when `key` changes, directly or transitively. */
+export const getDependentColumns = (plan: ComputedPlan, key: string): string[] => {
+    const result = new Set<string>()
+    const queue = [...(plan.dependents.get(key) ?? [])]
+    while (queue.length > 0) {
+        const next = queue.shift()!
+        if (result.has(next)) continue
+        result.add(next)
+        queue.push(...(plan.dependents.get(next) ?? []))
+    }
+    return plan.order.filter((k) => result.has(k))
+}
+
+/** Returns the error a formula would produce if saved, or null when it is valid. */
+export const validateFormula = (
+    columnConfigs: ColumnConfig[],
+    key: string,
+    formula: string
+): FormulaError | null => {
+    const candidate: ColumnConfig = { key, type: "formula", formula }
+    const configs = columnConfigs.some((c) => c.key === key)
+        ? columnConfigs.map((c) => (c.key === key ? candidate : c))
+        : [...columnConfigs, candidate]
+    return planComputedColumns(configs).errors.get(key) ?? null
+}
+
+/** Points formula and lookup references to `oldKey` at `newKey` after a column rename. */
+export const renameColumnReferences = (config: ColumnConfig, oldKey: string, newKey: string): ColumnConfig => {
+    let next = config
+    if (next.formula) {
+        next = { ...next, formula: renameFormulaReference(next.formula, oldKey, newKey) }
+    }
+    if (next.lookup?.linkKey === oldKey) {
+        next = { ...next, lookup: { ...next.lookup, linkKey: newKey } }
+    }
+    return next
+}
+
+/**
+ * Points lookups and rollups in `columns` that read field `oldKey` of table `tableId`, through
+ * one of their own link columns, at `newKey` after that field is renamed. Returns `columns`
+ * itself when nothing refers to it.
+ */
+export const renameLinkedFieldReferences = (
+    columns: ColumnConfig[],
+    tableId: string,
+    oldKey: string,
+    newKey: string
+): ColumnConfig[] => {
+    const linksToTable = new Set(columns.filter((c) => c.link?.tableId === tableId).map((c) => c.key))
+    if (!columns.some((c) => c.lookup?.field === oldKey && linksToTable.has(c.lookup.linkKey))) return columns
+    return columns.map((c) =>
+        c.lookup?.field === oldKey && linksToTable.has(c.lookup.linkKey)
+            ? { ...c, lookup: { ...c.lookup, field: newKey } }
+            : c
+    )
+}
+
+const toFormulaValue = (raw: unknown, type: ColumnType): FormulaValue => {
+    if (raw == null) return null
+    switch (type) {
+        case "number":
+        case "currency":
+        case "percent": {
+            if (raw === "" || raw === "-") return null
+            const num = Number(raw)
+            return isNaN(num) ? String(raw) : num
+        }
+        case "checkbox":
+            return Boolean(raw)
+        case "date": {
+            if (raw === "") return null
+            const d = new Date(String(raw))
+            return isNaN(d.getTime()) ? String(raw) : d
+        }
+        default:
+            if (typeof raw === "number" || typeof raw === "boolean") return raw
+            if (Array.isArray(raw)) return raw.join(", ")
+            return String(raw)
+    }
+}
+
+const fromFormulaValue = (value: FormulaValue): unknown => {
+    if (value instanceof Date) return isNaN(value.getTime()) ? "#VALUE!" : value.toISOString()
+    if (typeof value === "number" && !isFinite(value)) return "#DIV/0!"
+    return value ?? ""
+}
+
+// Linked tables are resolved with their own formulas applied; lookups of lookups are not followed.
+const resolvedTables = new WeakMap<TableData, Map<string, RowData>>()
+
+const getResolvedRows = (table: TableData): Map<string, RowData> => {
+    const cached = resolvedTables.get(table)
+    if (cached) return cached
+    const plan = planComputedColumns(table.columns)
+    const rows = computeRows(table.rows, table.columns, plan, new WeakMap())
+    const resolved = new Map(rows.map((r) => [getRowId(r), r]))
+    resolvedTables.set(table, resolved)
+    return resolved
+}
+
+const evaluateLookup = (
+    row: RowData,
+    config: ColumnConfig,
+    configsByKey: Map<string, ColumnConfig>,
+    context: ComputeContext
+): unknown => {
+    const { linkKey, field, aggregate = "count" } = config.lookup!
+    const target = findTable(context.tables, configsByKey.get(linkKey)?.link?.tableId)
+    if (!target) throw new FormulaError("#REF!", "Linked table not found")
+    const fieldConfig = target.columns.find((c) => c.key === field)
+    if (!fieldConfig) throw new FormulaError("#REF!", `Unknown field "${field}"`)
+
+    const linkedRows = getResolvedRows(target)
+    const values = toLinkIds(row[linkKey]).flatMap((id) => {
+        const linked = linkedRows.get(id)
+        if (!linked) return []
+        const value = linked[field]
+        return Array.isArray(value) ? value : [value]
+    })
+
+    if (config.type === "lookup") return values
+    return computeRollup(values, aggregate, (v) => formatCellValue(v, fieldConfig.type))
+}
+
+const evaluateColumns = (
+    row: RowData,
+    keys: string[],
+    configsByKey: Map<string, ColumnConfig>,
+    plan: ComputedPlan,
+    context: ComputeContext
+): RowData => {
+    const result: RowData = { ...row }
+    const rowErrors = new Map(plan.errors)
+
+    for (const [key, error] of plan.errors) result[key] = error.code
+
+    for (const key of keys) {
+        try {
+            const config = plan.columns.get(key)!
+            if (config.type !== "formula") {
+                result[key] = evaluateLookup(result, config, configsByKey, context)
+                continue
+            }
+            const value = evaluateFormula(plan.formulas.get(key)!, (ref) => {
+                const error = rowErrors.get(ref)
+                if (error) throw error
+                return toFormulaValue(result[ref], configsByKey.get(ref)?.type ?? "text")
+            })
+            result[key] = fromFormulaValue(value)
+        } catch (e) {
+            const error = e instanceof FormulaError ? e : new FormulaError("#ERROR!", String(e))
+            rowErrors.set(key, error)
+            result[key] = error.code
+        }
+    }
+
+    return result
+}
+
+/**
+ * Fills in every computed column for each row. Results are memoized per row object
+ * in `cache`, so after a single cell edit only the replaced row is re-evaluated.
+ * Create a fresh cache whenever the plan or a linked table changes.
+ */
+export const computeRows = <T extends RowData>(
+    rows: T[],
+    columnConfigs: ColumnConfig[],
+    plan: ComputedPlan,
+    cache: WeakMap<T, T>,
+    context: ComputeContext = { tables: [] }
+): T[] => {
+    if (plan.columns.size === 0) return rows
+
+    const configsByKey = new Map(columnConfigs.map((c) => [c.key, c]))
+
+    return rows.map((row) => {
+        const cached = cache.get(row)
+        if (cached) return cached
+        const computed = evaluateColumns(row, plan.order, configsByKey, plan, context) as T
+        cache.set(row, computed)
+        return computed
+    })
+}
+
+/** Re-evaluates only the computed columns downstream of `changedKey` on an already-computed row. */
+export const recomputeRow = <T extends RowData>(
+    row: T,
+    changedKey: string,
+    columnConfigs: ColumnConfig[],
+    plan: ComputedPlan,
+    context: ComputeContext = { tables: [] }
+): T => {
+    const configsByKey = new Map(columnConfigs.map((c) => [c.key, c]))
+    return evaluateColumns(row, getDependentColumns(plan, changedKey), configsByKey, plan, context) as T
+}
@@ -0,0 +1,111 @@
+import type { Row } from "@/components/columns"
+import {
+    type ColumnConfig,
+    type ColumnType,
+    addOptionLabels,
+    getDefaultValue,
+    hasOptions,
+    isComputedType,
+    reconcileOptionValue,
+} from "@/lib/column-types"
+import { type TableData, getRowId } from "@/lib/base"
+import { formatCellText, parseCellText } from "@/lib/clipboard"
+import { isEmptyCellValue } from "@/lib/sorting"
+
+export interface LostValue {
+    rowId: string
+    /** The value as the old column displayed it. */
+    text: string
+}
+
+export interface ColumnConversion {
+    /** The new config, with an option added for each distinct value when converting into a select. */
+    config: ColumnConfig
+    /** Every row's value after the conversion, by row id. */
+    values: Map<string, unknown>
+    /** Values that fit the new type, whether or not their form changed. */
+    converted: number
+    /** Values that don't fit the new type and are cleared. */
+    lost: LostValue[]
+    /** Labels of the options created from existing values. */
+    createdOptions: string[]
+}
+
+const NUMERIC_TYPES: ColumnType[] = ["number", "currency", "percent"]
+
+// Mirrors how parseCellText splits multi-select text.
+const toLabels = (text: string, type: ColumnType): string[] => {
+    const parts = type === "multi_select" ? text.split(/[,;]/) : [text]
+    return parts.map((l) => l.trim()).filter(Boolean)
+}
+
+/**
+ * Whether changing `from` to `to` changes what existing values mean. Computed columns
+ * ignore stored values, and option edits only matter when they remove options.
+ */
+export const needsConversion = (from: ColumnConfig, to: ColumnConfig): boolean => {
+    if (isComputedType(to.type)) return false
+    if (from.type !== to.type) return true
+    if (!hasOptions(to.type)) return false
+    const kept = new Set(to.options?.map((o) => o.label))
+    return (from.options ?? []).some((o) => !kept.has(o.label))
+}
+
+// The value in the new type, or undefined when it doesn't fit.
+const convertValue = (value: unknown, from: ColumnConfig, to: ColumnConfig, tables: TableData[]): unknown => {
+    if (hasOptions(from.type) && hasOptions(to.type)) return reconcileOptionValue(value, to.type, to.options ?? [])
+    if (from.type === "checkbox" && NUMERIC_TYPES.includes(to.type)) return 1
+    return parseCellText(formatCellText(value, from, tables), to, tables)
+}
+
+/**
+ * Works out every value of a column after changing its config from `from` to `to`. Text is
+ * parsed the way a paste would be: symbols are stripped from numbers, dates are read from
+ * common formats and checkboxes from truthy words. Converting into a select creates an
+ * option for each distinct value. Empty values stay empty; values that don't fit are lost.
+ * `rows` should hold computed values, so a formula converts to what it showed.
+ */
+export const convertColumn = (
+    rows: Row[],
+    from: ColumnConfig,
+    to: ColumnConfig,
+    tables: TableData[]
+): ColumnConversion => {
+    let config = to
+    let createdOptions: string[] = []
+    if (hasOptions(to.type) && !hasOptions(from.type)) {
+        // Labels differing only in case share an option, as they would when pasted.
+        const seen = new Set(to.options?.map((o) => o.label.toLowerCase()))
+        createdOptions = rows
+            .flatMap((row) => toLabels(formatCellText(row[from.key], from, tables), to.type))
+            .filter((label) => {
+                const key = label.toLowerCase()
+                if (seen.has(key)) return false
+                seen.add(key)
+                return true
+            })
+        config = addOptionLabels(to, createdOptions)
+    }
+
+    const values = new Map<string, unknown>()
+    const lost: LostValue[] = []
+    let converted = 0
+    for (const row of rows) {
+        const id = getRowId(row)
+        const value = row[from.key]
+        if (isEmptyCellValue(value) || (from.type === "checkbox" && !value)) {
+            values.set(id, getDefaultValue(to.type))
+            continue
+        }
+        const next = convertValue(value, from, config, tables)
+        if (next === undefined || isEmptyCellValue(next)) {
+            lost.push({ rowId: id, text: formatCellText(value, from, tables) })
+            values.set(id, getDefaultValue(to.type))
+        } else {
+            converted++
+            values.set(id, next)
+        }
+    }
+
+    return { config, values, converted, lost, createdOptions }
+}
@@ -0,0 +1,80 @@
+export const CSV_DELIMITERS = [",", "\t", ";", "|"] as const
+
+export type CsvDelimiter = (typeof CSV_DELIMITERS)[number]
+
+export const CSV_DELIMITER_LABELS: Record<CsvDelimiter, string> = {
+    ",": "Comma",
+    "\t": "Tab",
+    ";": "Semicolon",
+    "|": "Pipe",
+}
+
+/**
+ * Splits delimited text into rows of cells. Fields wrapped in double quotes may hold
+ * delimiters, newlines and doubled quotes; a leading byte order mark is dropped.
+ */
+export const parseDelimited = (text: string, delimiter: string): string[][] => {
+    const rows: string[][] = []
+    let row: string[] = []
+    let cell = ""
+    let quoted = false
+    const start = text.charCodeAt(0) === 0xfeff ? 1 : 0
+
+    for (let i = start; i < text.length; i++) {
+        const char = text[i]
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                cell += '"'
+                i++
+            } else if (char === '"') {
+                quoted = false
+            } else {
+                cell += char
+            }
+        } else if (char === '"' && cell === "") {
+            quoted = true
+        } else if (char === delimiter) {
+            row.push(cell)
+            cell = ""
+        } else if (char === "\n" || char === "\r") {
+            if (char === "\r" && text[i + 1] === "\n") i++
+            row.push(cell)
+            rows.push(row)
+            row = []
+            cell = ""
+        } else {
+            cell += char
+        }
+    }
+
+    // A trailing newline doesn't start another row.
+    if (cell !== "" || row.length > 0) {
+        row.push(cell)
+        rows.push(row)
+    }
+    return rows
+}
+
+/** Picks the delimiter that splits the first lines into the same number of fields, preferring more fields. */
+export const detectDelimiter = (text: string): CsvDelimiter => {
+    const sample = text.slice(0, 10_000)
+    let best: CsvDelimiter = ","
+    let bestCount = 1
+    for (const delimiter of CSV_DELIMITERS) {
+        const rows = parseDelimited(sample, delimiter).slice(0, 20)
+        // Drop the last sampled line when the cut may have truncated it.
+        const lines = rows.length > 1 && sample.length < text.length ? rows.slice(0, -1) : rows
+        const count = lines[0]?.length ?? 0
+        if (count > bestCount && lines.every((r) => r.length === count)) {
+            best = delimiter
+            bestCount = count
+        }
+    }
+    return best
+}
+
+const quoteCsvCell = (cell: string, delimiter: string): string =>
+    cell.includes(delimiter) || /[\n\r"]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell
+
+export const toCsv = (cells: string[][], delimiter = ",", newline = "\r\n"): string =>
+    cells.map((row) => row.map((cell) => quoteCsvCell(cell, delimiter)).join(delimiter)).join(newline)
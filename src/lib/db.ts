@@ -0,0 +1,315 @@
+import fs from "node:fs"
+import path from "node:path"
+import Database from "better-sqlite3"
+import type { Row } from "@/components/columns"
+import { type ColumnConfig } from "@/lib/column-types"
+import { type TableData, createSeedTables } from "@/lib/base"
+import { type SavedView, withViewDefaults } from "@/lib/views"
+import type { TrashItem } from "@/lib/trash"
+
+// Server only: route handlers and server components reach the database through this module.
+
+/** Where the database lives; set DATABASE_PATH to keep it elsewhere. */
+const DATABASE_PATH = process.env.DATABASE_PATH ?? path.join(process.cwd(), "data", "aircn.db")
+
+export class NotFoundError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = "NotFoundError"
+    }
+}
+
+export class ConflictError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = "ConflictError"
+    }
+}
+
+/**
+ * Schema changes, applied in order. The database's `user_version` records how many
+ * have run, so add new steps to the end and never edit one that has shipped.
+ */
+const MIGRATIONS = [
+    `CREATE TABLE base_tables (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        views TEXT NOT NULL
+    );
+    CREATE TABLE base_columns (
+        table_id TEXT NOT NULL REFERENCES base_tables (id) ON DELETE CASCADE,
+        key TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        config TEXT NOT NULL,
+        PRIMARY KEY (table_id, key)
+    );
+    CREATE TABLE base_rows (
+        table_id TEXT NOT NULL REFERENCES base_tables (id) ON DELETE CASCADE,
+        id TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (table_id, id)
+    );
+    CREATE INDEX base_rows_position ON base_rows (table_id, position);`,
+    `ALTER TABLE base_tables ADD COLUMN trash TEXT NOT NULL DEFAULT '[]';`,
+]
+
+const open = (): Database.Database => {
+    fs.mkdirSync(path.dirname(DATABASE_PATH), { recursive: true })
+    const db = new Database(DATABASE_PATH)
+    db.pragma("journal_mode = WAL")
+    db.pragma("foreign_keys = ON")
+
+    const version = db.pragma("user_version", { simple: true }) as number
+    const fresh = version === 0
+    db.transaction(() => {
+        MIGRATIONS.slice(version).forEach((sql) => db.exec(sql))
+        db.pragma(`user_version = ${MIGRATIONS.length}`)
+    })()
+    if (fresh) createSeedTables().forEach((table) => writeTable(db, table))
+    return db
+}
+
+// Dev reloads re-run this module, so the connection is kept on globalThis rather than reopened each time.
+const globalForDb = globalThis as unknown as { aircnDb?: Database.Database }
+
+const getDb = () => (globalForDb.aircnDb ??= open())
+
+interface TableRecord {
+    id: string
+    name: string
+    views: string
+    trash: string
+}
+
+const nextPosition = (db: Database.Database, sql: string, ...params: unknown[]): number =>
+    ((db.prepare(sql).pluck().get(...params) as number | null) ?? -1) + 1
+
+const writeTable = (db: Database.Database, table: TableData) => {
+    db.transaction(() => {
+        const position = nextPosition(db, "SELECT MAX(position) FROM base_tables")
+        db.prepare("INSERT INTO base_tables (id, name, position, views, trash) VALUES (?, ?, ?, ?, ?)").run(
+            table.id,
+            table.name,
+            position,
+            JSON.stringify(table.views),
+            JSON.stringify(table.trash)
+        )
+        writeColumns(db, table.id, table.columns)
+        writeRows(db, table.id, table.rows)
+    })()
+}
+
+const writeColumns = (db: Database.Database, tableId: string, columns: ColumnConfig[]) => {
+    const insert = db.prepare("INSERT INTO base_columns (table_id, key, position, config) VALUES (?, ?, ?, ?)")
+    columns.forEach((config, i) => insert.run(tableId, config.key, i, JSON.stringify(config)))
+}
+
+const writeRows = (db: Database.Database, tableId: string, rows: Row[]) => {
+    const start = nextPosition(db, "SELECT MAX(position) FROM base_rows WHERE table_id = ?", tableId)
+    const insert = db.prepare("INSERT INTO base_rows (table_id, id, position, data) VALUES (?, ?, ?, ?)")
+    rows.forEach((row, i) => insert.run(tableId, String(row.id), start + i, JSON.stringify(row)))
+}
+
+const readColumns = (db: Database.Database, tableId: string): ColumnConfig[] =>
+    (db.prepare("SELECT config FROM base_columns WHERE table_id = ? ORDER BY position").pluck().all(tableId) as string[])
+        .map((config) => JSON.parse(config))
+
+const readRows = (db: Database.Database, tableId: string): Row[] =>
+    (db.prepare("SELECT data FROM base_rows WHERE table_id = ? ORDER BY position").pluck().all(tableId) as string[])
+        .map((data) => JSON.parse(data))
+
+const readTable = (db: Database.Database, record: TableRecord): TableData => ({
+    id: record.id,
+    name: record.name,
+    columns: readColumns(db, record.id),
+    rows: readRows(db, record.id),
+    views: (JSON.parse(record.views) as SavedView[]).map(withViewDefaults),
+    trash: JSON.parse(record.trash),
+})
+
+const findRecord = (db: Database.Database, tableId: string): TableRecord => {
+    const record = db.prepare("SELECT id, name, views, trash FROM base_tables WHERE id = ?").get(tableId) as
+        | TableRecord
+        | undefined
+    if (!record) throw new NotFoundError(`Table "${tableId}" not found`)
+    return record
+}
+
+export const getTables = (): TableData[] => {
+    const db = getDb()
+    const records = db.prepare("SELECT id, name, views, trash FROM base_tables ORDER BY position").all() as TableRecord[]
+    return records.map((record) => readTable(db, record))
+}
+
+export const getTable = (tableId: string): TableData => {
+    const db = getDb()
+    return readTable(db, findRecord(db, tableId))
+}
+
+export const insertTable = (table: TableData): TableData => {
+    const db = getDb()
+    if (db.prepare("SELECT 1 FROM base_tables WHERE id = ?").get(table.id)) {
+        throw new ConflictError(`Table "${table.id}" already exists`)
+    }
+    writeTable(db, table)
+    return getTable(table.id)
+}
+
+export const updateTable = (
+    tableId: string,
+    changes: { name?: string; views?: SavedView[]; trash?: TrashItem[] }
+): TableData => {
+    const db = getDb()
+    const record = findRecord(db, tableId)
+    db.prepare("UPDATE base_tables SET name = ?, views = ?, trash = ? WHERE id = ?").run(
+        changes.name ?? record.name,
+        changes.views ? JSON.stringify(changes.views) : record.views,
+        changes.trash ? JSON.stringify(changes.trash) : record.trash,
+        tableId
+    )
+    return getTable(tableId)
+}
+
+export const deleteTable = (tableId: string) => {
+    const { changes } = getDb().prepare("DELETE FROM base_tables WHERE id = ?").run(tableId)
+    if (changes === 0) throw new NotFoundError(`Table "${tableId}" not found`)
+}
+
+export const getColumns = (tableId: string): ColumnConfig[] => {
+    const db = getDb()
+    findRecord(db, tableId)
+    return readColumns(db, tableId)
+}
+
+/** Adds a column at `index`, or at the end. Row values are left alone; a missing value reads as empty. */
+export const insertColumn = (tableId: string, config: ColumnConfig, index?: number): ColumnConfig[] => {
+    const columns = getColumns(tableId)
+    if (columns.some((c) => c.key === config.key)) throw new ConflictError(`Column "${config.key}" already exists`)
+    const at = index ?? columns.length
+    return replaceColumns(tableId, [...columns.slice(0, at), config, ...columns.slice(at)])
+}
+
+/** Replaces a table's columns with `columns`, in order, without touching row values. */
+export const replaceColumns = (tableId: string, columns: ColumnConfig[]): ColumnConfig[] => {
+    const db = getDb()
+    findRecord(db, tableId)
+    const keys = columns.map((c) => c.key)
+    if (new Set(keys).size !== keys.length) throw new ConflictError("Column keys must be unique")
+    db.transaction(() => {
+        db.prepare("DELETE FROM base_columns WHERE table_id = ?").run(tableId)
+        writeColumns(db, tableId, columns)
+    })()
+    return readColumns(db, tableId)
+}
+
+// Applies `update` to the data of every row in the table, in one transaction.
+const rewriteRows = (db: Database.Database, tableId: string, update: (row: Row) => Row) => {
+    const rows = db.prepare("SELECT id, data FROM base_rows WHERE table_id = ?").all(tableId) as {
+        id: string
+        data: string
+    }[]
+    const write = db.prepare("UPDATE base_rows SET data = ? WHERE table_id = ? AND id = ?")
+    rows.forEach(({ id, data }) => write.run(JSON.stringify(update(JSON.parse(data))), tableId, id))
+}
+
+/** Replaces a column's config. A new key renames the column and moves its values in every row. */
+export const updateColumn = (tableId: string, key: string, config: ColumnConfig): ColumnConfig[] => {
+    const db = getDb()
+    const columns = getColumns(tableId)
+    if (!columns.some((c) => c.key === key)) throw new NotFoundError(`Column "${key}" not found`)
+    if (config.key !== key && columns.some((c) => c.key === config.key)) {
+        throw new ConflictError(`Column "${config.key}" already exists`)
+    }
+    db.transaction(() => {
+        replaceColumns(tableId, columns.map((c) => (c.key === key ? config : c)))
+        if (config.key === key) return
+        rewriteRows(db, tableId, ({ [key]: value, ...rest }) => ({ ...rest, [config.key]: value }))
+    })()
+    return readColumns(db, tableId)
+}
+
+/** Removes a column and its values from every row. */
+export const deleteColumn = (tableId: string, key: string): ColumnConfig[] => {
+    const db = getDb()
+    const columns = getColumns(tableId)
+    if (!columns.some((c) => c.key === key)) throw new NotFoundError(`Column "${key}" not found`)
+    db.transaction(() => {
+        replaceColumns(tableId, columns.filter((c) => c.key !== key))
+        rewriteRows(db, tableId, ({ [key]: _, ...rest }) => rest)
+    })()
+    return readColumns(db, tableId)
+}
+
+export const getRows = (tableId: string): Row[] => {
+    const db = getDb()
+    findRecord(db, tableId)
+    return readRows(db, tableId)
+}
+
+export const getRow = (tableId: string, rowId: string): Row => {
+    const db = getDb()
+    findRecord(db, tableId)
+    const data = db.prepare("SELECT data FROM base_rows WHERE table_id = ? AND id = ?").pluck().get(tableId, rowId) as
+        | string
+        | undefined
+    if (data === undefined) throw new NotFoundError(`Row "${rowId}" not found`)
+    return JSON.parse(data)
+}
+
+/** Appends rows to the end of the table. */
+export const insertRows = (tableId: string, rows: Row[]): Row[] => {
+    const db = getDb()
+    findRecord(db, tableId)
+    const exists = db.prepare("SELECT 1 FROM base_rows WHERE table_id = ? AND id = ?")
+    const duplicate = rows.find((row) => exists.get(tableId, String(row.id)))
+    if (duplicate) throw new ConflictError(`Row "${String(duplicate.id)}" already exists`)
+    db.transaction(() => writeRows(db, tableId, rows))()
+    return rows
+}
+
+/** Changes to a row, as a JSON merge patch: listed fields are replaced and fields set to null are removed. */
+export type RowPatch = Row & { id: string }
+
+const applyPatch = (row: Row, patch: RowPatch): Row => {
+    const next = { ...row }
+    for (const [key, value] of Object.entries(patch)) {
+        if (value === null) delete next[key]
+        else next[key] = value
+    }
+    return next
+}
+
+/**
+ * Patches rows and, when `order` lists every row id, moves the rows into that order.
+ * Nothing is written if any row is missing.
+ */
+export const updateRows = (tableId: string, patches: RowPatch[], order?: string[]): Row[] => {
+    const db = getDb()
+    findRecord(db, tableId)
+    const write = db.prepare("UPDATE base_rows SET data = ? WHERE table_id = ? AND id = ?")
+    return db.transaction(() => {
+        const updated = patches.map((patch) => {
+            const next = applyPatch(getRow(tableId, patch.id), patch)
+            write.run(JSON.stringify(next), tableId, patch.id)
+            return next
+        })
+        if (order) {
+            const count = db.prepare("SELECT COUNT(*) FROM base_rows WHERE table_id = ?").pluck().get(tableId)
+            if (new Set(order).size !== count) throw new ConflictError("Row order must list every row once")
+            const move = db.prepare("UPDATE base_rows SET position = ? WHERE table_id = ? AND id = ?")
+            order.forEach((id, i) => {
+                if (move.run(i, tableId, id).changes === 0) throw new NotFoundError(`Row "${id}" not found`)
+            })
+        }
+        return updated
+    })()
+}
+
+export const deleteRows = (tableId: string, ids: string[]) => {
+    const db = getDb()
+    findRecord(db, tableId)
+    const remove = db.prepare("DELETE FROM base_rows WHERE table_id = ? AND id = ?")
+    db.transaction(() => ids.forEach((id) => remove.run(tableId, id)))()
+}
@@ -0,0 +1,144 @@
+import type { Row } from "@/components/columns"
+import { type ColumnConfig, hasOptions, toOptionLabels } from "@/lib/column-types"
+import { type TableData } from "@/lib/base"
+import { formatCellText } from "@/lib/clipboard"
+import { toCsv } from "@/lib/csv"
+
+export const EXPORT_FORMATS = ["csv", "json", "markdown", "html", "xlsx"] as const
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number]
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+    csv: "CSV",
+    json: "JSON",
+    markdown: "Markdown",
+    html: "HTML",
+    xlsx: "Excel",
+}
+
+const EXPORT_FILES: Record<ExportFormat, { extension: string; mime: string }> = {
+    csv: { extension: "csv", mime: "text/csv" },
+    json: { extension: "json", mime: "application/json" },
+    markdown: { extension: "md", mime: "text/markdown" },
+    html: { extension: "html", mime: "text/html" },
+    xlsx: { extension: "xlsx", mime: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" },
+}
+
+/** Raw writes values as stored (ISO dates, plain numbers, row ids); formatted writes what the grid shows. */
+export type ExportValueMode = "raw" | "formatted"
+
+export interface ExportInput {
+    name: string
+    columns: ColumnConfig[]
+    rows: Row[]
+    mode: ExportValueMode
+    tables: TableData[]
+}
+
+const toRawText = (value: unknown): string => {
+    if (value == null) return ""
+    if (Array.isArray(value)) return value.map(String).join(", ")
+    return String(value)
+}
+
+const toText = (row: Row, column: ColumnConfig, { mode, tables }: ExportInput): string =>
+    mode === "raw" ? toRawText(row[column.key]) : formatCellText(row[column.key], column, tables)
+
+const escapeHtml = (text: string): string =>
+    text.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`)
+
+const escapeMarkdown = (text: string): string =>
+    text.replace(/\\/g, "\\\\").replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>")
+
+// Select values keep their option colors as badges.
+const toHtmlCell = (row: Row, column: ColumnConfig, input: ExportInput): string => {
+    if (!hasOptions(column.type)) return escapeHtml(toText(row, column, input)).replace(/\r?\n/g, "<br>")
+    return toOptionLabels(row[column.key])
+        .map((label) => {
+            const color = column.options?.find((o) => o.label === label)?.color ?? "#6b7280"
+            return `<span class="badge" style="background-color: ${color}">${escapeHtml(label)}</span>`
+        })
+        .join(" ")
+}
+
+const HTML_STYLES = `
+    body { font-family: system-ui, sans-serif; margin: 2rem; color: #0a0a0a; }
+    table { border-collapse: collapse; font-size: 14px; }
+    th, td { border: 1px solid #e5e5e5; padding: 6px 10px; text-align: left; vertical-align: top; }
+    th { background: #f5f5f5; font-weight: 600; }
+    .badge { display: inline-block; padding: 1px 8px; border-radius: 9999px; color: #fff; font-size: 12px; }`
+
+/** Writes the given rows and columns, in order, as the contents of a file in `format`. */
+export const exportTable = (format: Exclude<ExportFormat, "xlsx">, input: ExportInput): string => {
+    const { name, columns, rows, mode } = input
+
+    switch (format) {
+        case "csv":
+            return toCsv([columns.map((c) => c.key), ...rows.map((row) => columns.map((c) => toText(row, c, input)))])
+        case "json":
+            return JSON.stringify(
+                {
+                    name,
+                    columns,
+                    rows: rows.map((row) => ({
+                        id: row.id,
+                        ...Object.fromEntries(
+                            columns.map((c) => [c.key, mode === "raw" ? row[c.key] ?? null : toText(row, c, input)])
+                        ),
+                    })),
+                },
+                null,
+                2
+            )
+        case "markdown":
+            return [
+                `| ${columns.map((c) => escapeMarkdown(c.key)).join(" | ")} |`,
+                `| ${columns.map(() => "---").join(" | ")} |`,
+                ...rows.map((row) => `| ${columns.map((c) => escapeMarkdown(toText(row, c, input))).join(" | ")} |`),
+            ].join("\n")
+        case "html":
+            return [
+                "<!DOCTYPE html>",
+                '<html lang="en">',
+                "<head>",
+                '<meta charset="utf-8">',
+                `<title>${escapeHtml(name)}</title>`,
+                `<style>${HTML_STYLES}\n</style>`,
+                "</head>",
+                "<body>",
+                "<table>",
+                `<thead><tr>${columns.map((c) => `<th>${escapeHtml(c.key)}</th>`).join("")}</tr></thead>`,
+                "<tbody>",
+                ...rows.map((row) => `<tr>${columns.map((c) => `<td>${toHtmlCell(row, c, input)}</td>`).join("")}</tr>`),
+                "</tbody>",
+                "</table>",
+                "</body>",
+                "</html>",
+            ].join("\n")
+    }
+}
+
+/** Some browsers cancel a download whose URL is revoked while it starts, so it's kept this long. */
+const REVOKE_DELAY_MS = 1000
+
+/** Saves `content` through a temporary download link. */
+export const downloadFile = (content: BlobPart, fileName: string, mime: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type: mime }))
+    const link = document.createElement("a")
+    link.href = url
+    link.download = fileName
+    link.click()
+    setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS)
+}
+
+export const downloadExport = async (format: ExportFormat, input: ExportInput) => {
+    const { extension, mime } = EXPORT_FILES[format]
+    if (format === "xlsx") {
+        const { exportXlsx } = await import("@/lib/xlsx")
+        downloadFile(await exportXlsx(input), `${input.name}.${extension}`, mime)
+        return
+    }
+    const content = exportTable(format, input)
+    // A BOM lets Excel open UTF-8 CSVs without mangling accents.
+    downloadFile(format === "csv" ? `\uFEFF${content}` : content, `${input.name}.${extension}`, `${mime};charset=utf-8`)
+}
@@ -0,0 +1,288 @@
+import { differenceInCalendarDays, isValid, parseISO } from "date-fns"
+import {
+    type ColumnConfig,
+    type ColumnType,
+    formatCellValue,
+    parseDateValue,
+    toOptionLabels,
+} from "@/lib/column-types"
+
+type RowData = Record<string, unknown>
+
+export type FilterOperator =
+    | "contains"
+    | "not_contains"
+    | "is"
+    | "is_not"
+    | "eq"
+    | "neq"
+    | "gt"
+    | "gte"
+    | "lt"
+    | "lte"
+    | "between"
+    | "on"
+    | "before"
+    | "after"
+    | "within_last_days"
+    | "is_any_of"
+    | "is_none_of"
+    | "has_all_of"
+    | "is_checked"
+    | "is_not_checked"
+    | "is_empty"
+    | "is_not_empty"
+
+export const FILTER_OPERATOR_LABELS: Record<FilterOperator, string> = {
+    contains: "contains",
+    not_contains: "does not contain",
+    is: "is",
+    is_not: "is not",
+    eq: "=",
+    neq: "≠",
+    gt: ">",
+    gte: "≥",
+    lt: "<",
+    lte: "≤",
+    between: "is between",
+    on: "is on",
+    before: "is before",
+    after: "is after",
+    within_last_days: "is within the last",
+    is_any_of: "is any of",
+    is_none_of: "is none of",
+    has_all_of: "has all of",
+    is_checked: "is checked",
+    is_not_checked: "is not checked",
+    is_empty: "is empty",
+    is_not_empty: "is not empty",
+}
+
+export type FilterConjunction = "and" | "or"
+
+export interface FilterCondition {
+    kind: "condition"
+    id: string
+    columnKey: string
+    operator: FilterOperator
+    /**
+     * A string for text, number and date (`yyyy-MM-dd`) operators, a `[min, max]`
+     * pair for "between", a day count for "within_last_days" and labels for option operators.
+     */
+    value?: unknown
+}
+
+export interface FilterGroup {
+    kind: "group"
+    id: string
+    conjunction: FilterConjunction
+    children: FilterNode[]
+}
+
+export type FilterNode = FilterCondition | FilterGroup
+
+const TEXT_OPERATORS: FilterOperator[] = ["contains", "not_contains", "is", "is_not", "is_empty", "is_not_empty"]
+const NUMBER_OPERATORS: FilterOperator[] = ["eq", "neq", "gt", "gte", "lt", "lte", "between", "is_empty", "is_not_empty"]
+const DATE_OPERATORS: FilterOperator[] = ["on", "before", "after", "within_last_days", "is_empty", "is_not_empty"]
+
+/** The operators offered for a column, in menu order; the first is the default. */
+export const getFilterOperators = (type: ColumnType): FilterOperator[] => {
+    switch (type) {
+        case "number":
+        case "currency":
+        case "percent":
+        case "rollup":
+            return NUMBER_OPERATORS
+        case "date":
+            return DATE_OPERATORS
+        case "select":
+            return ["is_any_of", "is_none_of", "is_empty", "is_not_empty"]
+        case "multi_select":
+            return ["is_any_of", "has_all_of", "is_none_of", "is_empty", "is_not_empty"]
+        case "checkbox":
+            return ["is_checked", "is_not_checked"]
+        case "link":
+            return ["is_empty", "is_not_empty"]
+        default:
+            return TEXT_OPERATORS
+    }
+}
+
+/** Operators that are complete without a value. */
+export const isUnaryOperator = (operator: FilterOperator): boolean =>
+    operator === "is_empty" || operator === "is_not_empty" || operator === "is_checked" || operator === "is_not_checked"
+
+export const createFilterGroup = (conjunction: FilterConjunction = "and"): FilterGroup => ({
+    kind: "group",
+    id: crypto.randomUUID(),
+    conjunction,
+    children: [],
+})
+
+export const createFilterCondition = (config: ColumnConfig): FilterCondition => ({
+    kind: "condition",
+    id: crypto.randomUUID(),
+    columnKey: config.key,
+    operator: getFilterOperators(config.type)[0],
+})
+
+/** Number of conditions anywhere in the tree, complete or not. */
+export const countFilterConditions = (node: FilterNode): number =>
+    node.kind === "condition" ? 1 : node.children.reduce((n, child) => n + countFilterConditions(child), 0)
+
+/** Returns a copy of the tree with `update` applied to the node with `id`; returning null removes it. */
+export const updateFilterNode = (
+    group: FilterGroup,
+    id: string,
+    update: (node: FilterNode) => FilterNode | null
+): FilterGroup => ({
+    ...group,
+    children: group.children.flatMap((child) => {
+        if (child.id === id) {
+            const next = update(child)
+            return next ? [next] : []
+        }
+        return child.kind === "group" ? [updateFilterNode(child, id, update)] : [child]
+    }),
+})
+
+/** Points conditions on `oldKey` at `newKey` after a column rename. */
+export const renameFilterColumn = (group: FilterGroup, oldKey: string, newKey: string): FilterGroup => ({
+    ...group,
+    children: group.children.map((child) => {
+        if (child.kind === "group") return renameFilterColumn(child, oldKey, newKey)
+        return child.columnKey === oldKey ? { ...child, columnKey: newKey } : child
+    }),
+})
+
+/** Drops the conditions on a column that no longer exists, along with groups left empty. */
+export const removeFilterColumn = (group: FilterGroup, key: string): FilterGroup => ({
+    ...group,
+    children: group.children.flatMap((child): FilterNode[] => {
+        if (child.kind === "condition") return child.columnKey === key ? [] : [child]
+        const next = removeFilterColumn(child, key)
+        return next.children.length > 0 ? [next] : []
+    }),
+})
+
+const isBlank = (value: unknown): boolean =>
+    value == null || value === "" || (Array.isArray(value) && value.length === 0)
+
+const toNumber = (value: unknown): number | null => {
+    if (isBlank(value)) return null
+    const num = Number(value)
+    return isNaN(num) ? null : num
+}
+
+const toDay = (value: unknown): Date | null => {
+    if (typeof value !== "string" || !value) return null
+    const date = parseISO(value)
+    return isValid(date) ? date : null
+}
+
+/** A condition missing the value its operator needs is ignored rather than hiding every row. */
+const isComplete = (condition: FilterCondition): boolean => {
+    const { operator, value } = condition
+    if (isUnaryOperator(operator)) return true
+    if (operator === "between") {
+        return Array.isArray(value) && (toNumber(value[0]) !== null || toNumber(value[1]) !== null)
+    }
+    return !isBlank(value)
+}
+
+const matchesCondition = (row: RowData, condition: FilterCondition, config: ColumnConfig): boolean => {
+    const raw = row[condition.columnKey]
+    const { operator, value } = condition
+
+    switch (operator) {
+        case "is_empty":
+            return isBlank(raw)
+        case "is_not_empty":
+            return !isBlank(raw)
+        case "is_checked":
+            return Boolean(raw)
+        case "is_not_checked":
+            return !raw
+        case "contains":
+        case "not_contains":
+        case "is":
+        case "is_not": {
+            const text = formatCellValue(raw, config.type).toLowerCase()
+            const query = String(value).toLowerCase()
+            if (operator === "contains") return text.includes(query)
+            if (operator === "not_contains") return !text.includes(query)
+            if (operator === "is") return text === query
+            return text !== query
+        }
+        case "eq":
+        case "neq":
+        case "gt":
+        case "gte":
+        case "lt":
+        case "lte": {
+            const num = toNumber(raw)
+            const target = toNumber(value)
+            if (num === null || target === null) return operator === "neq"
+            if (operator === "eq") return num === target
+            if (operator === "neq") return num !== target
+            if (operator === "gt") return num > target
+            if (operator === "gte") return num >= target
+            if (operator === "lt") return num < target
+            return num <= target
+        }
+        case "between": {
+            const num = toNumber(raw)
+            const [min, max] = Array.isArray(value) ? value.map(toNumber) : [null, null]
+            if (num === null) return false
+            return (min === null || num >= min) && (max === null || num <= max)
+        }
+        case "on":
+        case "before":
+        case "after": {
+            const date = parseDateValue(raw)
+            const day = toDay(value)
+            if (!date || !day) return false
+            const diff = differenceInCalendarDays(date, day)
+            if (operator === "on") return diff === 0
+            return operator === "before" ? diff < 0 : diff > 0
+        }
+        case "within_last_days": {
+            const date = parseDateValue(raw)
+            const days = toNumber(value)
+            if (!date || days === null) return false
+            const diff = differenceInCalendarDays(new Date(), date)
+            return diff >= 0 && diff <= days
+        }
+        case "is_any_of":
+        case "is_none_of":
+        case "has_all_of": {
+            const labels = toOptionLabels(raw)
+            const wanted = toOptionLabels(value)
+            if (operator === "has_all_of") return wanted.every((w) => labels.includes(w))
+            const any = labels.some((l) => wanted.includes(l))
+            return operator === "is_any_of" ? any : !any
+        }
+    }
+}
+
+// Null when a group has nothing to apply, so an empty nested group can't satisfy an "or".
+const evaluateGroup = (row: RowData, group: FilterGroup, configsByKey: Map<string, ColumnConfig>): boolean | null => {
+    const results = group.children.flatMap((child) => {
+        if (child.kind === "group") {
+            const result = evaluateGroup(row, child, configsByKey)
+            return result === null ? [] : [result]
+        }
+        const config = configsByKey.get(child.columnKey)
+        if (!config || !isComplete(child)) return []
+        return [matchesCondition(row, child, config)]
+    })
+    if (results.length === 0) return null
+    return group.conjunction === "and" ? results.every(Boolean) : results.some(Boolean)
+}
+
+/**
+ * Whether a row passes a filter tree. Empty groups and incomplete conditions match
+ * everything, and conditions on columns that no longer exist are skipped.
+ */
+export const matchesFilter = (row: RowData, group: FilterGroup, configsByKey: Map<string, ColumnConfig>): boolean =>
+    evaluateGroup(row, group, configsByKey) ?? true
@@ -0,0 +1,554 @@
+export type FormulaValue = number | string | boolean | Date | null
+
+export type FormulaErrorCode = "#ERROR!" | "#REF!" | "#NAME?" | "#VALUE!" | "#DIV/0!" | "#CYCLE!"
+
+export const FORMULA_ERROR_CODES: FormulaErrorCode[] = ["#ERROR!", "#REF!", "#NAME?", "#VALUE!", "#DIV/0!", "#CYCLE!"]
+
+export const isFormulaError = (value: unknown): value is FormulaErrorCode =>
+    typeof value === "string" && (FORMULA_ERROR_CODES as string[]).includes(value)
+
+export class FormulaError extends Error {
+    constructor(public code: FormulaErrorCode, message: string) {
+        super(message)
+        this.name = "FormulaError"
+    }
+}
+
+type Token =
+    | { kind: "number"; value: number }
+    | { kind: "string"; value: string }
+    | { kind: "field"; value: string }
+    | { kind: "ident"; value: string }
+    | { kind: "op"; value: string }
+    | { kind: "paren"; value: "(" | ")" }
+    | { kind: "comma" }
+
+export type FormulaNode =
+    | { kind: "number"; value: number }
+    | { kind: "string"; value: string }
+    | { kind: "boolean"; value: boolean }
+    | { kind: "field"; key: string }
+    | { kind: "unary"; op: "-" | "+"; operand: FormulaNode }
+    | { kind: "binary"; op: string; left: FormulaNode; right: FormulaNode }
+    | { kind: "call"; name: string; args: FormulaNode[] }
+
+const OPERATORS = ["<>", "!=", "<=", ">=", "=", "<", ">", "+", "-", "*", "/", "%", "^", "&"]
+
+const tokenize = (source: string): Token[] => {
+    const tokens: Token[] = []
+    let i = 0
+
+    while (i < source.length) {
+        const ch = source[i]
+
+        if (/\s/.test(ch)) {
+            i++
+            continue
+        }
+
+        if (/[0-9.]/.test(ch)) {
+            const match = source.slice(i).match(/^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/)
+            if (!match) throw new FormulaError("#ERROR!", `Unexpected "${ch}"`)
+            tokens.push({ kind: "number", value: Number(match[0]) })
+            i += match[0].length
+            continue
+        }
+
+        if (ch === "\"" || ch === "'") {
+            let value = ""
+            let j = i + 1
+            while (j < source.length && source[j] !== ch) {
+                if (source[j] === "\\" && j + 1 < source.length) j++
+                value += source[j]
+                j++
+            }
+            if (j >= source.length) throw new FormulaError("#ERROR!", "Unterminated string")
+            tokens.push({ kind: "string", value })
+            i = j + 1
+            continue
+        }
+
+        if (ch === "{") {
+            const end = source.indexOf("}", i)
+            if (end === -1) throw new FormulaError("#ERROR!", "Unterminated field reference")
+            tokens.push({ kind: "field", value: source.slice(i + 1, end) })
+            i = end + 1
+            continue
+        }
+
+        if (/[A-Za-z_]/.test(ch)) {
+            const match = source.slice(i).match(/^[A-Za-z_][A-Za-z0-9_]*/)!
+            tokens.push({ kind: "ident", value: match[0] })
+            i += match[0].length
+            continue
+        }
+
+        if (ch === "(" || ch === ")") {
+            tokens.push({ kind: "paren", value: ch })
+            i++
+            continue
+        }
+
+        if (ch === ",") {
+            tokens.push({ kind: "comma" })
+            i++
+            continue
+        }
+
+        const op = OPERATORS.find((o) => source.startsWith(o, i))
+        if (op) {
+            tokens.push({ kind: "op", value: op })
+            i += op.length
+            continue
+        }
+
+        throw new FormulaError("#ERROR!", `Unexpected "${ch}"`)
+    }
+
+    return tokens
+}
+
+// Lowest to highest; "^" is the only right-associative level.
+const PRECEDENCE: string[][] = [
+    ["=", "<>", "!=", "<", "<=", ">", ">="],
+    ["&"],
+    ["+", "-"],
+    ["*", "/", "%"],
+    ["^"],
+]
+
+export const parseFormula = (source: string): FormulaNode => {
+    const tokens = tokenize(source)
+    let pos = 0
+
+    const peek = () => tokens[pos]
+
+    const expectParen = (value: "(" | ")") => {
+        const token = tokens[pos]
+        if (token?.kind !== "paren" || token.value !== value) {
+            throw new FormulaError("#ERROR!", `Expected "${value}"`)
+        }
+        pos++
+    }
+
+    const parseBinary = (level: number): FormulaNode => {
+        if (level >= PRECEDENCE.length) return parseUnary()
+
+        let left = parseBinary(level + 1)
+        while (true) {
+            const token = peek()
+            if (token?.kind !== "op" || !PRECEDENCE[level].includes(token.value)) return left
+            pos++
+            const right = token.value === "^" ? parseBinary(level) : parseBinary(level + 1)
+            left = { kind: "binary", op: token.value, left, right }
+        }
+    }
+
+    const parseUnary = (): FormulaNode => {
+        const token = peek()
+        if (token?.kind === "op" && (token.value === "-" || token.value === "+")) {
+            pos++
+            return { kind: "unary", op: token.value, operand: parseUnary() }
+        }
+        return parsePrimary()
+    }
+
+    const parsePrimary = (): FormulaNode => {
+        const token = tokens[pos++]
+        if (!token) throw new FormulaError("#ERROR!", "Unexpected end of formula")
+
+        switch (token.kind) {
+            case "number":
+                return { kind: "number", value: token.value }
+            case "string":
+                return { kind: "string", value: token.value }
+            case "field":
+                return { kind: "field", key: token.value }
+            case "paren": {
+                if (token.value !== "(") throw new FormulaError("#ERROR!", "Unexpected \")\"")
+                const inner = parseBinary(0)
+                expectParen(")")
+                return inner
+            }
+            case "ident": {
+                const name = token.value.toUpperCase()
+                const next = peek()
+                if (next?.kind !== "paren" || next.value !== "(") {
+                    if (name === "TRUE" || name === "FALSE") {
+                        return { kind: "boolean", value: name === "TRUE" }
+                    }
+                    throw new FormulaError("#NAME?", `Unknown name "${token.value}"`)
+                }
+                pos++
+                const args: FormulaNode[] = []
+                const closing = peek()
+                if (!(closing?.kind === "paren" && closing.value === ")")) {
+                    args.push(parseBinary(0))
+                    while (peek()?.kind === "comma") {
+                        pos++
+                        args.push(parseBinary(0))
+                    }
+                }
+                expectParen(")")
+                if (!(name in FUNCTIONS)) {
+                    throw new FormulaError("#NAME?", `Unknown function "${token.value}"`)
+                }
+                return { kind: "call", name, args }
+            }
+            default:
+                throw new FormulaError("#ERROR!", "Unexpected token")
+        }
+    }
+
+    if (tokens.length === 0) throw new FormulaError("#ERROR!", "Formula is empty")
+    const ast = parseBinary(0)
+    if (pos < tokens.length) throw new FormulaError("#ERROR!", "Unexpected input after expression")
+    return ast
+}
+
+export const getFormulaDependencies = (node: FormulaNode): string[] => {
+    const keys = new Set<string>()
+    const visit = (n: FormulaNode) => {
+        switch (n.kind) {
+            case "field":
+                keys.add(n.key)
+                break
+            case "unary":
+                visit(n.operand)
+                break
+            case "binary":
+                visit(n.left)
+                visit(n.right)
+                break
+            case "call":
+                n.args.forEach(visit)
+                break
+        }
+    }
+    visit(node)
+    return [...keys]
+}
+
+/** Rewrites `{oldKey}` references so formulas survive a column rename. */
+export const renameFormulaReference = (source: string, oldKey: string, newKey: string): string =>
+    source.split(`{${oldKey}}`).join(`{${newKey}}`)
+
+// --- Coercion ---
+
+const isBlank = (v: FormulaValue) => v === null || v === ""
+
+export const toNumber = (v: FormulaValue): number => {
+    if (v === null || v === "") return 0
+    if (typeof v === "number") return v
+    if (typeof v === "boolean") return v ? 1 : 0
+    if (v instanceof Date) return v.getTime()
+    const num = Number(v.replace(/[$,%\s]/g, ""))
+    if (isNaN(num)) throw new FormulaError("#VALUE!", `"${v}" is not a number`)
+    return num
+}
+
+export const toText = (v: FormulaValue): string => {
+    if (v === null) return ""
+    if (typeof v === "boolean") return v ? "TRUE" : "FALSE"
+    if (v instanceof Date) return v.toISOString()
+    return String(v)
+}
+
+export const toBoolean = (v: FormulaValue): boolean => {
+    if (typeof v === "boolean") return v
+    if (typeof v === "number") return v !== 0
+    if (v === null) return false
+    if (v instanceof Date) return true
+    const lower = v.trim().toLowerCase()
+    return lower !== "" && lower !== "false" && lower !== "0"
+}
+
+export const toDate = (v: FormulaValue): Date => {
+    if (v instanceof Date) return v
+    if (v === null || v === "" || typeof v === "boolean") {
+        throw new FormulaError("#VALUE!", "Expected a date")
+    }
+    const d = new Date(v)
+    if (isNaN(d.getTime())) throw new FormulaError("#VALUE!", `"${v}" is not a date`)
+    return d
+}
+
+const compare = (a: FormulaValue, b: FormulaValue): number => {
+    if (isBlank(a) && isBlank(b)) return 0
+    if (a instanceof Date || b instanceof Date) return toDate(a).getTime() - toDate(b).getTime()
+    if (typeof a === "number" || typeof b === "number") {
+        try {
+            return toNumber(a) - toNumber(b)
+        } catch {
+            // Fall through to a text comparison when one side isn't numeric.
+        }
+    }
+    if (typeof a === "boolean" || typeof b === "boolean") {
+        return Number(toBoolean(a)) - Number(toBoolean(b))
+    }
+    return toText(a).localeCompare(toText(b))
+}
+
+// --- Functions ---
+
+type Evaluate = (node: FormulaNode) => FormulaValue
+
+type FormulaFunction = (args: FormulaNode[], evaluate: Evaluate) => FormulaValue
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const arity = (name: string, args: FormulaNode[], min: number, max = min) => {
+    if (args.length < min || args.length > max) {
+        throw new FormulaError("#VALUE!", `${name} expects ${min === max ? min : `${min}-${max}`} argument(s)`)
+    }
+}
+
+const numbers = (args: FormulaNode[], evaluate: Evaluate): number[] =>
+    args.map(evaluate).filter((v) => !isBlank(v)).map(toNumber)
+
+const numeric = (name: string, fn: (...n: number[]) => number, min: number, max = min): FormulaFunction =>
+    (args, evaluate) => {
+        arity(name, args, min, max)
+        return fn(...args.map((a) => toNumber(evaluate(a))))
+    }
+
+const textual = (name: string, fn: (s: string, ...rest: FormulaValue[]) => FormulaValue, min: number, max = min): FormulaFunction =>
+    (args, evaluate) => {
+        arity(name, args, min, max)
+        const [first, ...rest] = args.map(evaluate)
+        return fn(toText(first), ...rest)
+    }
+
+const addToDate = (date: Date, amount: number, unit: string): Date => {
+    const d = new Date(date)
+    switch (unit.toLowerCase()) {
+        case "years":
+        case "year":
+            d.setFullYear(d.getFullYear() + amount)
+            return d
+        case "months":
+        case "month":
+            d.setMonth(d.getMonth() + amount)
+            return d
+        case "weeks":
+        case "week":
+            return new Date(d.getTime() + amount * 7 * DAY_MS)
+        case "hours":
+        case "hour":
+            return new Date(d.getTime() + amount * 60 * 60 * 1000)
+        case "days":
+        case "day":
+            return new Date(d.getTime() + amount * DAY_MS)
+        default:
+            throw new FormulaError("#VALUE!", `Unknown date unit "${unit}"`)
+    }
+}
+
+const FUNCTIONS: Record<string, FormulaFunction> = {
+    // Logical
+    IF: (args, evaluate) => {
+        arity("IF", args, 2, 3)
+        if (toBoolean(evaluate(args[0]))) return evaluate(args[1])
+        return args[2] ? evaluate(args[2]) : null
+    },
+    IFERROR: (args, evaluate) => {
+        arity("IFERROR", args, 2)
+        try {
+            return evaluate(args[0])
+        } catch (e) {
+            if (e instanceof FormulaError) return evaluate(args[1])
+            throw e
+        }
+    },
+    AND: (args, evaluate) => args.every((a) => toBoolean(evaluate(a))),
+    OR: (args, evaluate) => args.some((a) => toBoolean(evaluate(a))),
+    NOT: (args, evaluate) => {
+        arity("NOT", args, 1)
+        return !toBoolean(evaluate(args[0]))
+    },
+    ISBLANK: (args, evaluate) => {
+        arity("ISBLANK", args, 1)
+        return isBlank(evaluate(args[0]))
+    },
+
+    // Arithmetic
+    SUM: (args, evaluate) => numbers(args, evaluate).reduce((a, b) => a + b, 0),
+    AVERAGE: (args, evaluate) => {
+        const values = numbers(args, evaluate)
+        if (values.length === 0) throw new FormulaError("#DIV/0!", "AVERAGE of no values")
+        return values.reduce((a, b) => a + b, 0) / values.length
+    },
+    MIN: (args, evaluate) => {
+        const values = numbers(args, evaluate)
+        return values.length ? Math.min(...values) : 0
+    },
+    MAX: (args, evaluate) => {
+        const values = numbers(args, evaluate)
+        return values.length ? Math.max(...values) : 0
+    },
+    ROUND: numeric("ROUND", (n, digits = 0) => {
+        const factor = 10 ** digits
+        return Math.round(n * factor) / factor
+    }, 1, 2),
+    FLOOR: numeric("FLOOR", Math.floor, 1),
+    CEILING: numeric("CEILING", Math.ceil, 1),
+    ABS: numeric("ABS", Math.abs, 1),
+    SQRT: numeric("SQRT", (n) => {
+        if (n < 0) throw new FormulaError("#VALUE!", "SQRT of a negative number")
+        return Math.sqrt(n)
+    }, 1),
+    POWER: numeric("POWER", (n, p) => n ** p, 2),
+    MOD: numeric("MOD", (n, d) => {
+        if (d === 0) throw new FormulaError("#DIV/0!", "Division by zero")
+        return n % d
+    }, 2),
+
+    // Text
+    CONCAT: (args, evaluate) => args.map((a) => toText(evaluate(a))).join(""),
+    LEN: textual("LEN", (s) => s.length, 1),
+    UPPER: textual("UPPER", (s) => s.toUpperCase(), 1),
+    LOWER: textual("LOWER", (s) => s.toLowerCase(), 1),
+    TRIM: textual("TRIM", (s) => s.trim(), 1),
+    LEFT: textual("LEFT", (s, n = 1) => s.slice(0, toNumber(n)), 1, 2),
+    RIGHT: textual("RIGHT", (s, n = 1) => {
+        const count = toNumber(n)
+        return count <= 0 ? "" : s.slice(-count)
+    }, 1, 2),
+    MID: textual("MID", (s, start, count) =>
+        s.slice(toNumber(start) - 1, toNumber(start) - 1 + toNumber(count)), 3),
+    FIND: textual("FIND", (s, needle) => s.indexOf(toText(needle)) + 1, 2),
+    SUBSTITUTE: textual("SUBSTITUTE", (s, search, replacement) =>
+        s.split(toText(search)).join(toText(replacement)), 3),
+    TEXT: textual("TEXT", (s) => s, 1),
+    VALUE: (args, evaluate) => {
+        arity("VALUE", args, 1)
+        return toNumber(evaluate(args[0]))
+    },
+
+    // Date
+    TODAY: (args) => {
+        arity("TODAY", args, 0)
+        const now = new Date()
+        return new Date(now.getFullYear(), now.getMonth(), now.getDate())
+    },
+    NOW: (args) => {
+        arity("NOW", args, 0)
+        return new Date()
+    },
+    DATE: (args, evaluate) => {
+        arity("DATE", args, 3)
+        const [y, m, d] = args.map((a) => toNumber(evaluate(a)))
+        return new Date(y, m - 1, d)
+    },
+    YEAR: (args, evaluate) => {
+        arity("YEAR", args, 1)
+        return toDate(evaluate(args[0])).getFullYear()
+    },
+    MONTH: (args, evaluate) => {
+        arity("MONTH", args, 1)
+        return toDate(evaluate(args[0])).getMonth() + 1
+    },
+    DAY: (args, evaluate) => {
+        arity("DAY", args, 1)
+        return toDate(evaluate(args[0])).getDate()
+    },
+    DATEADD: (args, evaluate) => {
+        arity("DATEADD", args, 2, 3)
+        const unit = args[2] ? toText(evaluate(args[2])) : "days"
+        return addToDate(toDate(evaluate(args[0])), toNumber(evaluate(args[1])), unit)
+    },
+    DATEDIFF: (args, evaluate) => {
+        arity("DATEDIFF", args, 2, 3)
+        const start = toDate(evaluate(args[0]))
+        const end = toDate(evaluate(args[1]))
+        const unit = args[2] ? toText(evaluate(args[2])).toLowerCase() : "days"
+        switch (unit) {
+            case "years":
+            case "year":
+                return end.getFullYear() - start.getFullYear()
+            case "months":
+            case "month":
+                return (end.getFullYear() - start.getFullYear()) * 12 + end.getMonth() - start.getMonth()
+            case "weeks":
+            case "week":
+                return Math.trunc((end.getTime() - start.getTime()) / (7 * DAY_MS))
+            case "days":
+            case "day":
+                return Math.trunc((end.getTime() - start.getTime()) / DAY_MS)
+            default:
+                throw new FormulaError("#VALUE!", `Unknown date unit "${unit}"`)
+        }
+    },
+}
+
+export const FORMULA_FUNCTIONS = Object.keys(FUNCTIONS).sort()
+
+// --- Evaluation ---
+
+const applyBinary = (op: string, a: FormulaValue, b: FormulaValue): FormulaValue => {
+    switch (op) {
+        case "+":
+            if (a instanceof Date) return new Date(a.getTime() + toNumber(b) * DAY_MS)
+            return toNumber(a) + toNumber(b)
+        case "-":
+            if (a instanceof Date && b instanceof Date) return (a.getTime() - b.getTime()) / DAY_MS
+            if (a instanceof Date) return new Date(a.getTime() - toNumber(b) * DAY_MS)
+            return toNumber(a) - toNumber(b)
+        case "*":
+            return toNumber(a) * toNumber(b)
+        case "/": {
+            const divisor = toNumber(b)
+            if (divisor === 0) throw new FormulaError("#DIV/0!", "Division by zero")
+            return toNumber(a) / divisor
+        }
+        case "%": {
+            const divisor = toNumber(b)
+            if (divisor === 0) throw new FormulaError("#DIV/0!", "Division by zero")
+            return toNumber(a) % divisor
+        }
+        case "^":
+            return toNumber(a) ** toNumber(b)
+        case "&":
+            return toText(a) + toText(b)
+        case "=":
+            return compare(a, b) === 0
+        case "<>":
+        case "!=":
+            return compare(a, b) !== 0
+        case "<":
+            return compare(a, b) < 0
+        case "<=":
+            return compare(a, b) <= 0
+        case ">":
+            return compare(a, b) > 0
+        case ">=":
+            return compare(a, b) >= 0
+        default:
+            throw new FormulaError("#ERROR!", `Unknown operator "${op}"`)
+    }
+}
+
+export const evaluateFormula = (
+    node: FormulaNode,
+    resolveField: (key: string) => FormulaValue
+): FormulaValue => {
+    const evaluate: Evaluate = (n) => {
+        switch (n.kind) {
+            case "number":
+            case "string":
+            case "boolean":
+                return n.value
+            case "field":
+                return resolveField(n.key)
+            case "unary": {
+                const value = toNumber(evaluate(n.operand))
+                return n.op === "-" ? -value : value
+            }
+            case "binary":
+                return applyBinary(n.op, evaluate(n.left), evaluate(n.right))
+            case "call":
+                return FUNCTIONS[n.name](n.args, evaluate)
+        }
+    }
+    return evaluate(node)
+}
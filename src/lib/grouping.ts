@@ -0,0 +1,153 @@
+import { format } from "date-fns"
+import {
+    type ColumnConfig,
+    type ColumnType,
+    formatCellValue,
+    parseDateValue,
+} from "@/lib/column-types"
+
+export const MAX_GROUP_LEVELS = 3
+
+export type DateGranularity = "day" | "month" | "year"
+
+export const DATE_GRANULARITY_LABELS: Record<DateGranularity, string> = {
+    day: "Day",
+    month: "Month",
+    year: "Year",
+}
+
+export interface GroupRule {
+    key: string
+    /** How date columns are bucketed; defaults to "day". */
+    granularity?: DateGranularity
+    /** Width of each bucket for number columns; unset groups by exact value. */
+    bucketSize?: number
+}
+
+export interface RowGroup<T> {
+    /** Unique across the whole tree, built from the ancestors' keys. */
+    id: string
+    depth: number
+    rule: GroupRule
+    label: string
+    /** Option color for select columns. */
+    color?: string
+    /** Every row in the group, including those in subgroups. */
+    rows: T[]
+    subgroups: RowGroup<T>[]
+}
+
+interface Bucket {
+    key: string
+    label: string
+    color?: string
+    /** Sort position among sibling groups; empty values always sort last. */
+    rank: number | string
+}
+
+const EMPTY_LABEL = "(Empty)"
+
+const NUMERIC_TYPES: ColumnType[] = ["number", "currency", "percent", "rollup"]
+
+export const isNumericGroupType = (type: ColumnType): boolean => NUMERIC_TYPES.includes(type)
+
+/** Link cells hold row ids, which make meaningless group labels. */
+export const canGroupBy = (config: ColumnConfig): boolean => config.type !== "link"
+
+const DATE_FORMATS: Record<DateGranularity, { key: string; label: string }> = {
+    day: { key: "yyyy-MM-dd", label: "MMM d, yyyy" },
+    month: { key: "yyyy-MM", label: "MMMM yyyy" },
+    year: { key: "yyyy", label: "yyyy" },
+}
+
+const getBucket = (value: unknown, config: ColumnConfig, rule: GroupRule): Bucket | null => {
+    if (value == null || value === "" || (Array.isArray(value) && value.length === 0)) return null
+
+    if (config.type === "select") {
+        const label = String(value)
+        const index = config.options?.findIndex((o) => o.label === label) ?? -1
+        return {
+            key: label,
+            label,
+            color: config.options?.[index]?.color,
+            rank: index === -1 ? Number.MAX_SAFE_INTEGER : index,
+        }
+    }
+
+    if (config.type === "date") {
+        const date = parseDateValue(value)
+        if (!date) return null
+        const { key, label } = DATE_FORMATS[rule.granularity ?? "day"]
+        return { key: format(date, key), label: format(date, label), rank: format(date, key) }
+    }
+
+    if (isNumericGroupType(config.type)) {
+        const num = Number(value)
+        if (isNaN(num)) return null
+        const size = rule.bucketSize
+        if (!size || size <= 0) {
+            return { key: String(num), label: formatCellValue(num, config.type), rank: num }
+        }
+        const low = Math.floor(num / size) * size
+        return {
+            key: String(low),
+            label: `${formatCellValue(low, config.type)} – ${formatCellValue(low + size, config.type)}`,
+            rank: low,
+        }
+    }
+
+    if (config.type === "checkbox") {
+        return value ? { key: "checked", label: "Checked", rank: 0 } : { key: "unchecked", label: "Unchecked", rank: 1 }
+    }
+
+    const label = formatCellValue(value, config.type)
+    return { key: label, label, rank: label.toLowerCase() }
+}
+
+const compareRank = (a: number | string, b: number | string): number =>
+    typeof a === "number" && typeof b === "number" ? a - b : String(a).localeCompare(String(b))
+
+/**
+ * Buckets rows under nested groups, one level per rule. Groups are ordered by
+ * value (select options by their position, dates chronologically) with empty
+ * values last, and rows keep their incoming order within each group.
+ */
+export const groupRows = <T>(
+    rows: T[],
+    rules: GroupRule[],
+    configsByKey: Map<string, ColumnConfig>,
+    getValue: (row: T, key: string) => unknown,
+    depth = 0,
+    parentId = ""
+): RowGroup<T>[] => {
+    const [rule, ...rest] = rules
+    const config = rule ? configsByKey.get(rule.key) : undefined
+    if (!config) return []
+
+    const groups = new Map<string, { bucket: Bucket | null; rows: T[] }>()
+    for (const row of rows) {
+        const bucket = getBucket(getValue(row, rule.key), config, rule)
+        const key = bucket?.key ?? ""
+        const group = groups.get(key) ?? { bucket, rows: [] }
+        group.rows.push(row)
+        groups.set(key, group)
+    }
+
+    return [...groups.values()]
+        .sort((a, b) => {
+            if (!a.bucket || !b.bucket) return a.bucket ? -1 : b.bucket ? 1 : 0
+            return compareRank(a.bucket.rank, b.bucket.rank)
+        })
+        .map(({ bucket, rows: members }) => {
+            const id = `${parentId}/${rule.key}:${bucket?.key ?? ""}`
+            return {
+                id,
+                depth,
+                rule,
+                label: bucket?.label ?? EMPTY_LABEL,
+                color: bucket?.color,
+                rows: members,
+                subgroups: groupRows(members, rest, configsByKey, getValue, depth + 1, id),
+            }
+        })
+}
@@ -0,0 +1,143 @@
+import type { Row } from "@/components/columns"
+import {
+    type ColumnConfig,
+    type ColumnType,
+    type SelectOption,
+    OPTION_COLORS,
+    addOptionLabels,
+    hasOptions,
+    toOptionLabels,
+} from "@/lib/column-types"
+import { type TableData } from "@/lib/base"
+import { EMAIL_PATTERN, parseCellText } from "@/lib/clipboard"
+
+const BOOLEAN_TEXT = new Set(["true", "false", "yes", "no"])
+const PHONE_PATTERN = /^(\+?1[\s.-]?)?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}$/
+const CURRENCY_PATTERN = /^\(?-?\$\s?-?[\d,]*\.?\d+\)?$/
+const PERCENT_PATTERN = /^-?[\d,]*\.?\d+\s?%$/
+const NUMBER_PATTERN = /^-?(\d{1,3}(,\d{3})+|\d*)(\.\d+)?$/
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/
+const US_DATE_PATTERN = /^\d{1,2}\/\d{1,2}\/(\d{2}|\d{4})$/
+const URL_PATTERN = /^https?:\/\/\S+$/i
+
+/** Text columns with at most this many distinct values, each repeated on average, become selects. */
+const MAX_SELECT_OPTIONS = 12
+
+export interface InferredColumn {
+    type: ColumnType
+    options?: SelectOption[]
+}
+
+/** Share of non-empty values that must fit a type for it to be picked; the rest are reported on import. */
+const INFERENCE_THRESHOLD = 0.9
+
+/** Guesses the column type that fits (nearly) every non-empty value. */
+export const inferColumnType = (values: string[]): InferredColumn => {
+    const filled = values.map((v) => v.trim()).filter(Boolean)
+    if (filled.length === 0) return { type: "text" }
+    const fits = (test: (v: string) => boolean) =>
+        filled.filter(test).length >= filled.length * INFERENCE_THRESHOLD
+
+    if (fits((v) => BOOLEAN_TEXT.has(v.toLowerCase()))) return { type: "checkbox" }
+    if (fits((v) => CURRENCY_PATTERN.test(v))) return { type: "currency" }
+    if (fits((v) => PERCENT_PATTERN.test(v))) return { type: "percent" }
+    if (fits((v) => NUMBER_PATTERN.test(v) && /\d/.test(v))) return { type: "number" }
+    if (fits((v) => ISO_DATE_PATTERN.test(v) || US_DATE_PATTERN.test(v))) return { type: "date" }
+    if (fits((v) => PHONE_PATTERN.test(v))) return { type: "phone" }
+    if (fits((v) => EMAIL_PATTERN.test(v))) return { type: "email" }
+    if (fits((v) => URL_PATTERN.test(v))) return { type: "url" }
+    if (filled.some((v) => v.includes("\n") || v.length > 120)) return { type: "long_text" }
+
+    const distinct = [...new Set(filled)]
+    if (distinct.length <= MAX_SELECT_OPTIONS && distinct.length * 2 <= filled.length) {
+        return {
+            type: "select",
+            options: distinct.map((label, i) => ({ label, color: OPTION_COLORS[i % OPTION_COLORS.length].value })),
+        }
+    }
+    return { type: "text" }
+}
+
+/** Where one column of an imported file goes. */
+export type ImportMapping =
+    | { kind: "skip" }
+    | { kind: "new"; column: ColumnConfig }
+    | { kind: "existing"; key: string }
+
+export interface ImportError {
+    /** 1-based position among the imported data rows. */
+    row: number
+    column: string
+    value: string
+}
+
+export interface ImportResult {
+    columns: ColumnConfig[]
+    rows: Row[]
+    errors: ImportError[]
+}
+
+/** Default mappings: headers naming an existing column fill it, the rest become new columns of the inferred type. */
+export const suggestMappings = (headers: string[], records: string[][], columnConfigs: ColumnConfig[]): ImportMapping[] => {
+    const taken = new Set(columnConfigs.map((c) => c.key))
+    return headers.map((header, i) => {
+        const name = header.trim() || `Column ${i + 1}`
+        const existing = columnConfigs.find((c) => c.key.toLowerCase() === name.toLowerCase())
+        if (existing) return { kind: "existing", key: existing.key }
+
+        let key = name
+        let n = 2
+        while (taken.has(key)) key = `${name} ${n++}`
+        taken.add(key)
+        return { kind: "new", column: { key, ...inferColumnType(records.map((r) => r[i] ?? "")) } }
+    })
+}
+
+/**
+ * Converts the records of an imported file into new columns and rows. A value that doesn't
+ * fit its column's type leaves the cell empty and is reported; the rest of the row is kept.
+ * Unknown option labels are added to the column's options.
+ */
+export const buildImport = (
+    records: string[][],
+    mappings: ImportMapping[],
+    columnConfigs: ColumnConfig[],
+    tables: TableData[]
+): ImportResult => {
+    const newColumns = mappings.flatMap((m) => (m.kind === "new" ? [m.column] : []))
+    const targets = mappings.map((m) => {
+        if (m.kind === "new") return m.column
+        if (m.kind === "existing") return columnConfigs.find((c) => c.key === m.key)
+        return undefined
+    })
+    const labels = new Map<string, Set<string>>()
+    const errors: ImportError[] = []
+
+    const rows = records.map((record, r) => {
+        const row: Row = {}
+        targets.forEach((config, i) => {
+            const text = record[i] ?? ""
+            if (!config || text.trim() === "") return
+            const value = parseCellText(text, config, tables)
+            if (value === undefined) {
+                errors.push({ row: r + 1, column: config.key, value: text })
+                return
+            }
+            row[config.key] = value
+            if (hasOptions(config.type)) {
+                const set = labels.get(config.key) ?? new Set()
+                toOptionLabels(value).forEach((l) => set.add(l))
+                labels.set(config.key, set)
+            }
+        })
+        return row
+    })
+
+    const addOptions = (config: ColumnConfig) => addOptionLabels(config, [...(labels.get(config.key) ?? [])])
+
+    return {
+        columns: [...columnConfigs.map(addOptions), ...newColumns.map(addOptions)],
+        rows,
+        errors,
+    }
+}
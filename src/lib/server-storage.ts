@@ -0,0 +1,129 @@
+import type { Row } from "@/components/columns"
+import { type TableData, getRowId } from "@/lib/base"
+import type { RowPatch } from "@/lib/db"
+import { type StorageAdapter, STORAGE_VERSION } from "@/lib/storage"
+
+interface ApiRequest {
+    method: "GET" | "POST" | "PUT" | "PATCH" | "DELETE"
+    path: string
+    body?: unknown
+}
+
+const tablePath = (tableId: string) => `/api/tables/${encodeURIComponent(tableId)}`
+
+// Columns and views are small and often rebuilt with the same contents, so they're compared by value.
+const isSame = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b)
+
+// The fields of `after` that differ from `before`, with removed fields set to null; null when nothing changed.
+const diffRow = (before: Row, after: Row): RowPatch | null => {
+    const patch: Row = {}
+    for (const key of Object.keys(after)) {
+        if (before[key] !== after[key]) patch[key] = after[key]
+    }
+    for (const key of Object.keys(before)) {
+        if (!(key in after)) patch[key] = null
+    }
+    return Object.keys(patch).length > 0 ? { ...patch, id: getRowId(after) } : null
+}
+
+const diffRows = (path: string, before: Row[], after: Row[]): ApiRequest[] => {
+    const previous = new Map(before.map((row) => [getRowId(row), row]))
+    const ids = new Set(after.map(getRowId))
+    const removed = before.map(getRowId).filter((id) => !ids.has(id))
+    const added = after.filter((row) => !previous.has(getRowId(row)))
+    const patches = after.flatMap((row) => {
+        const prev = previous.get(getRowId(row))
+        const patch = prev && prev !== row ? diffRow(prev, row) : null
+        return patch ? [patch] : []
+    })
+
+    // The server appends new rows, so the order is only sent when the rows end up some other way.
+    const expected = [...before.map(getRowId).filter((id) => ids.has(id)), ...added.map(getRowId)]
+    const order = after.map(getRowId)
+    const reordered = order.some((id, i) => id !== expected[i])
+
+    const requests: ApiRequest[] = []
+    if (removed.length > 0) requests.push({ method: "DELETE", path, body: { ids: removed } })
+    if (added.length > 0) requests.push({ method: "POST", path, body: { rows: added } })
+    if (patches.length > 0 || reordered) {
+        requests.push({ method: "PATCH", path, body: { rows: patches, order: reordered ? order : undefined } })
+    }
+    return requests
+}
+
+/** The API requests that take the server from `before` to `after`, in the order they must run. */
+export const diffTables = (before: TableData[], after: TableData[]): ApiRequest[] => {
+    const previous = new Map(before.map((t) => [t.id, t]))
+    const ids = new Set(after.map((t) => t.id))
+    const requests: ApiRequest[] = before
+        .filter((t) => !ids.has(t.id))
+        .map((t) => ({ method: "DELETE", path: tablePath(t.id) }))
+
+    for (const table of after) {
+        const prev = previous.get(table.id)
+        if (!prev) {
+            requests.push({ method: "POST", path: "/api/tables", body: table })
+            continue
+        }
+        if (prev === table) continue
+
+        const path = tablePath(table.id)
+        const changes = {
+            name: prev.name !== table.name ? table.name : undefined,
+            views: !isSame(prev.views, table.views) ? table.views : undefined,
+            // The trash can hold whole rows, so it's only compared by identity.
+            trash: prev.trash !== table.trash ? table.trash : undefined,
+        }
+        if (Object.values(changes).some((change) => change !== undefined)) {
+            requests.push({ method: "PATCH", path, body: changes })
+        }
+        if (!isSame(prev.columns, table.columns)) {
+            requests.push({ method: "PUT", path: `${path}/columns`, body: table.columns })
+        }
+        if (prev.rows !== table.rows) requests.push(...diffRows(`${path}/rows`, prev.rows, table.rows))
+    }
+    return requests
+}
+
+const send = async ({ method, path, body }: ApiRequest): Promise<unknown> => {
+    const response = await fetch(path, {
+        method,
+        headers: body === undefined ? undefined : { "Content-Type": "application/json" },
+        body: body === undefined ? undefined : JSON.stringify(body),
+    })
+    if (!response.ok) {
+        const { error } = await response.json().catch(() => ({ error: response.statusText }))
+        throw new Error(`${method} ${path} failed: ${error}`)
+    }
+    return response.status === 204 ? undefined : response.json()
+}
+
+/**
+ * Saves through the app's API routes, sending only what changed since the server last
+ * confirmed a save. Saves run one at a time; after a failed one the server's copy is
+ * fetched again before the next diff, since it may hold only part of the change.
+ */
+export const createServerStorage = (): StorageAdapter => {
+    let confirmed: TableData[] | null = null
+    let queue: Promise<void> = Promise.resolve()
+
+    const fetchTables = async () => {
+        confirmed = (await send({ method: "GET", path: "/api/tables" })) as TableData[]
+        return confirmed
+    }
+
+    return {
+        load: async () => ({ version: STORAGE_VERSION, tables: await fetchTables(), savedAt: new Date().toISOString() }),
+        save: (base) => {
+            const run = async () => {
+                const before = confirmed ?? (await fetchTables())
+                confirmed = null
+                for (const request of diffTables(before, base.tables)) await send(request)
+                confirmed = base.tables
+            }
+            const result = queue.then(run)
+            queue = result.catch(() => {})
+            return result
+        },
+    }
+}
@@ -0,0 +1,75 @@
+import type { SortingFn, SortingState } from "@tanstack/react-table"
+import {
+    type ColumnConfig,
+    formatCellValue,
+    parseDateValue,
+    toOptionLabels,
+} from "@/lib/column-types"
+
+type RowData = Record<string, unknown>
+
+/** Empty cells read as `undefined` through the column accessor so TanStack's `sortUndefined: "last"` keeps them at the bottom in either direction. */
+export const isEmptyCellValue = (value: unknown): boolean =>
+    value == null || value === "" || (Array.isArray(value) && value.length === 0)
+
+const collator = new Intl.Collator("en-US", { numeric: true, sensitivity: "base" })
+
+const compareNumbers = (a: number, b: number): number => (isNaN(a) ? (isNaN(b) ? 0 : 1) : isNaN(b) ? -1 : a - b)
+
+// Labels not among the options (e.g. left over after an option was removed) sort after the known ones.
+const optionRank = (config: ColumnConfig, label: string): number => {
+    const index = config.options?.findIndex((o) => o.label === label) ?? -1
+    return index === -1 ? Number.MAX_SAFE_INTEGER : index
+}
+
+/** Orders two non-empty cell values of one column by what they mean rather than how they are stored. */
+export const compareCellValues = (a: unknown, b: unknown, config: ColumnConfig): number => {
+    switch (config.type) {
+        case "number":
+        case "currency":
+        case "percent":
+        case "rollup":
+            return compareNumbers(Number(a), Number(b))
+        case "date":
+            return compareNumbers(parseDateValue(a)?.getTime() ?? NaN, parseDateValue(b)?.getTime() ?? NaN)
+        case "phone":
+            return compareNumbers(Number(String(a).replace(/\D/g, "")), Number(String(b).replace(/\D/g, "")))
+        case "checkbox":
+            return Number(Boolean(a)) - Number(Boolean(b))
+        case "select":
+            return optionRank(config, String(a)) - optionRank(config, String(b)) || collator.compare(String(a), String(b))
+        case "multi_select": {
+            // Tag lists compare option by option, so "High, Low" sorts before "Low".
+            const left = toOptionLabels(a).map((l) => optionRank(config, l))
+            const right = toOptionLabels(b).map((l) => optionRank(config, l))
+            for (let i = 0; i < Math.min(left.length, right.length); i++) {
+                if (left[i] !== right[i]) return left[i] - right[i]
+            }
+            return left.length - right.length
+        }
+        case "formula":
+            if (typeof a === "number" && typeof b === "number") return a - b
+            return collator.compare(formatCellValue(a, config.type), formatCellValue(b, config.type))
+        default:
+            return collator.compare(formatCellValue(a, config.type), formatCellValue(b, config.type))
+    }
+}
+
+export const getSortingFn = (config: ColumnConfig): SortingFn<RowData> => (rowA, rowB, columnId) =>
+    compareCellValues(rowA.getValue(columnId), rowB.getValue(columnId), config)
+
+/**
+ * Applies a header click to the sort list. A plain click sorts by that column alone,
+ * cycling ascending, descending and off; with `append` it adds the column as the
+ * lowest-priority key or cycles it in place, leaving the other keys untouched.
+ */
+export const toggleSort = (sorting: SortingState, key: string, append: boolean): SortingState => {
+    const existing = sorting.find((s) => s.id === key)
+    if (!append) {
+        if (!existing || sorting.length > 1) return [{ id: key, desc: false }]
+        return existing.desc ? [] : [{ id: key, desc: true }]
+    }
+    if (!existing) return [...sorting, { id: key, desc: false }]
+    if (!existing.desc) return sorting.map((s) => (s.id === key ? { ...s, desc: true } : s))
+    return sorting.filter((s) => s.id !== key)
+}
@@ -0,0 +1,107 @@
+import { type TableData } from "@/lib/base"
+import { withViewDefaults } from "@/lib/views"
+
+/** The shape of saved data. Bump it, and add a migration, whenever that shape changes. */
+export const STORAGE_VERSION = 2
+
+/** A base as written to storage, tagged with the version it was saved at. */
+export interface StoredBase {
+    version: number
+    tables: TableData[]
+    savedAt: string
+}
+
+/**
+ * Where a base is saved. Adapters only move data in and out; versioning and
+ * migrations happen in `loadBase`, so every backend gets them for free.
+ */
+export interface StorageAdapter {
+    load: () => Promise<StoredBase | null>
+    save: (base: StoredBase) => Promise<void>
+}
+
+export class StorageVersionError extends Error {
+    constructor(public version: number) {
+        super(`Saved data is from a newer version (${version}) of the app`)
+        this.name = "StorageVersionError"
+    }
+}
+
+type Migration = (tables: TableData[]) => TableData[]
+
+/** Upgrades tables saved at version `n` to version `n + 1`, keyed by `n`. */
+const MIGRATIONS: Record<number, Migration> = {
+    // Tables gained a trash for deleted columns and rows.
+    1: (tables) => tables.map((t) => ({ ...t, trash: t.trash ?? [] })),
+}
+
+export const migrateBase = (base: StoredBase): TableData[] => {
+    if (base.version > STORAGE_VERSION) throw new StorageVersionError(base.version)
+    let tables = base.tables
+    for (let version = base.version; version < STORAGE_VERSION; version++) {
+        const migration = MIGRATIONS[version]
+        if (migration) tables = migration(tables)
+    }
+    return tables.map((t) => ({ ...t, views: t.views.map(withViewDefaults) }))
+}
+
+/** Reads the saved tables at the current version, or null when nothing is saved. */
+export const loadBase = async (storage: StorageAdapter): Promise<TableData[] | null> => {
+    const base = await storage.load()
+    return base ? migrateBase(base) : null
+}
+
+export const saveBase = (storage: StorageAdapter, tables: TableData[]): Promise<void> =>
+    storage.save({ version: STORAGE_VERSION, tables, savedAt: new Date().toISOString() })
+
+const STORE_NAME = "bases"
+const BASE_KEY = "default"
+
+const toPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+    })
+
+/** Keeps the base in the browser's IndexedDB as a single record. */
+export const createIndexedDbStorage = (databaseName = "aircn"): StorageAdapter => {
+    let database: Promise<IDBDatabase> | null = null
+
+    // The database version only tracks object stores; the data's own version lives in each record.
+    const open = () => {
+        database ??= new Promise((resolve, reject) => {
+            const request = indexedDB.open(databaseName, 1)
+            request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME)
+            request.onsuccess = () => resolve(request.result)
+            request.onerror = () => reject(request.error)
+        })
+        return database
+    }
+
+    return {
+        load: async () => {
+            const store = (await open()).transaction(STORE_NAME).objectStore(STORE_NAME)
+            return ((await toPromise(store.get(BASE_KEY))) as StoredBase | undefined) ?? null
+        },
+        save: async (base) => {
+            const transaction = (await open()).transaction(STORE_NAME, "readwrite")
+            transaction.objectStore(STORE_NAME).put(base, BASE_KEY)
+            await new Promise<void>((resolve, reject) => {
+                transaction.oncomplete = () => resolve()
+                transaction.onerror = () => reject(transaction.error)
+                transaction.onabort = () => reject(transaction.error)
+            })
+        },
+    }
+}
+
+/** Keeps saves in memory only, so a reload starts over from the initial tables. */
+export const createMemoryStorage = (): StorageAdapter => {
+    let saved: StoredBase | null = null
+    return {
+        load: async () => saved,
+        save: async (base) => {
+            saved = base
+        },
+    }
+}
@@ -0,0 +1,130 @@
+import type { Row } from "@/components/columns"
+import { type ColumnConfig } from "@/lib/column-types"
+import { getRowId } from "@/lib/base"
+
+/**
+ * Something deleted from a table that can still be restored. A column takes its values
+ * with it, so the rows hold no stale data under its key while it sits in the trash.
+ */
+export type TrashItem =
+    | {
+          kind: "column"
+          id: string
+          deletedAt: string
+          column: ColumnConfig
+          /** Where the column stood among the table's columns. */
+          index: number
+          /** The column's values, by row id. */
+          values: Record<string, unknown>
+      }
+    | {
+          kind: "rows"
+          id: string
+          deletedAt: string
+          rows: Row[]
+          /** Where each row stood in the table, in ascending order. */
+          indexes: number[]
+      }
+
+interface TrashContents {
+    columns: ColumnConfig[]
+    rows: Row[]
+}
+
+export const trashColumn = ({ columns, rows }: TrashContents, key: string) => {
+    const index = columns.findIndex((c) => c.key === key)
+    const values: Record<string, unknown> = {}
+    const nextRows = rows.map((row) => {
+        if (!(key in row)) return row
+        const { [key]: value, ...rest } = row
+        values[getRowId(row)] = value
+        return rest
+    })
+    const item: TrashItem = {
+        kind: "column",
+        id: crypto.randomUUID(),
+        deletedAt: new Date().toISOString(),
+        column: columns[index],
+        index,
+        values,
+    }
+    return { columns: columns.filter((c) => c.key !== key), rows: nextRows, item }
+}
+
+export const trashRows = (rows: Row[], ids: Set<string>) => {
+    const indexes: number[] = []
+    const trashed: Row[] = []
+    rows.forEach((row, i) => {
+        if (!ids.has(getRowId(row))) return
+        indexes.push(i)
+        trashed.push(row)
+    })
+    const item: TrashItem = {
+        kind: "rows",
+        id: crypto.randomUUID(),
+        deletedAt: new Date().toISOString(),
+        rows: trashed,
+        indexes,
+    }
+    return { rows: rows.filter((row) => !ids.has(getRowId(row))), item }
+}
+
+// A restored column whose name was taken in the meantime comes back as "name (restored)".
+const uniqueKey = (columns: ColumnConfig[], key: string): string => {
+    if (!columns.some((c) => c.key === key)) return key
+    let name = `${key} (restored)`
+    let i = 2
+    while (columns.some((c) => c.key === name)) {
+        name = `${key} (restored ${i})`
+        i++
+    }
+    return name
+}
+
+/**
+ * Puts an item back where it was deleted from, as far as the table still allows: values
+ * of rows deleted since are gone, and rows whose id is back in use are skipped.
+ */
+export const restoreTrashItem = ({ columns, rows }: TrashContents, item: TrashItem): TrashContents => {
+    if (item.kind === "column") {
+        const key = uniqueKey(columns, item.column.key)
+        const index = Math.min(item.index, columns.length)
+        return {
+            columns: [...columns.slice(0, index), { ...item.column, key }, ...columns.slice(index)],
+            rows: rows.map((row) => {
+                const id = getRowId(row)
+                return id in item.values ? { ...row, [key]: item.values[id] } : row
+            }),
+        }
+    }
+
+    const ids = new Set(rows.map(getRowId))
+    const next = [...rows]
+    item.rows.forEach((row, i) => {
+        if (ids.has(getRowId(row))) return
+        next.splice(Math.min(item.indexes[i], next.length), 0, row)
+    })
+    return { columns, rows: next }
+}
+
+/** Restores trash item `itemId` into `table` and takes it out of the trash; `table` itself if the item is gone. */
+export const restoreFromTrash = <T extends TrashContents & { trash: TrashItem[] }>(table: T, itemId: string): T => {
+    const item = table.trash.find((i) => i.id === itemId)
+    if (!item) return table
+    return { ...table, ...restoreTrashItem(table, item), trash: table.trash.filter((i) => i.id !== itemId) }
+}
+
+/**
+ * Drops fields that no column owns, such as values left behind by deletions before
+ * columns went to the trash. Rows that are already clean keep their identity.
+ */
+export const removeOrphanedKeys = (rows: Row[], columns: ColumnConfig[]): Row[] => {
+    const keys = new Set(["id", ...columns.map((c) => c.key)])
+    let changed = false
+    const next = rows.map((row) => {
+        if (Object.keys(row).every((k) => keys.has(k))) return row
+        changed = true
+        return Object.fromEntries(Object.entries(row).filter(([k]) => keys.has(k)))
+    })
+    return changed ? next : rows
+}
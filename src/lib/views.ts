@@ -0,0 +1,208 @@
+import type {
+    ColumnOrderState,
+    ColumnSizingState,
+    SortingState,
+    VisibilityState,
+} from "@tanstack/react-table"
+import { type AggregateMode } from "@/lib/aggregates"
+import { type FilterGroup, createFilterGroup, removeFilterColumn, renameFilterColumn } from "@/lib/filters"
+import { type GroupRule } from "@/lib/grouping"
+
+export const VIEW_TYPES = ["grid", "board", "calendar", "gallery", "timeline"] as const
+
+export type ViewType = (typeof VIEW_TYPES)[number]
+
+export const VIEW_TYPE_LABELS: Record<ViewType, string> = {
+    grid: "Grid",
+    board: "Board",
+    calendar: "Calendar",
+    gallery: "Gallery",
+    timeline: "Timeline",
+}
+
+export interface BoardSettings {
+    /** Key of the select column whose options become lanes. */
+    groupKey?: string
+    /** Manual card order as row ids; rows missing from it follow in table order. */
+    order: string[]
+}
+
+export type CalendarMode = "month" | "week"
+
+export interface CalendarSettings {
+    /** Key of the date column that places rows on days. */
+    dateKey?: string
+    mode: CalendarMode
+}
+
+export interface GallerySettings {
+    /** Key of the column shown as each card's title; defaults to the first column. */
+    titleKey?: string
+    /** Key of the URL column whose image covers each card, if any. */
+    coverKey?: string
+    /** Columns listed on cards, separate from the grid's hidden columns. Unset shows the first few. */
+    fields?: string[]
+}
+
+export type TimelineScale = "day" | "week" | "month"
+
+export interface TimelineSettings {
+    /** Keys of the date columns where each bar starts and ends; the end day is inclusive. */
+    startKey?: string
+    endKey?: string
+    scale: TimelineScale
+    /** Key of the select column that splits rows into swimlanes, if any. */
+    groupKey?: string
+}
+
+/**
+ * A named, saved way of looking at a table. Views only hold presentation state,
+ * so switching between them never touches the table's rows.
+ */
+export interface SavedView {
+    id: string
+    name: string
+    type: ViewType
+    sorting: SortingState
+    filter: FilterGroup
+    /** Grid grouping, outermost level first. */
+    grouping: GroupRule[]
+    columnVisibility: VisibilityState
+    columnOrder: ColumnOrderState
+    columnSizing: ColumnSizingState
+    /** Leading data columns kept in place, with the selection column, when the grid scrolls sideways. */
+    frozenColumns: number
+    aggregateModes: Record<string, AggregateMode>
+    board: BoardSettings
+    calendar: CalendarSettings
+    gallery: GallerySettings
+    timeline: TimelineSettings
+}
+
+const uniqueViewName = (views: SavedView[], base: string): string => {
+    let name = base
+    let i = 2
+    while (views.some((v) => v.name === name)) {
+        name = `${base} ${i}`
+        i++
+    }
+    return name
+}
+
+export const createView = (views: SavedView[], type: ViewType): SavedView => ({
+    id: crypto.randomUUID(),
+    name: uniqueViewName(views, `${VIEW_TYPE_LABELS[type]} view`),
+    type,
+    sorting: [],
+    filter: createFilterGroup(),
+    grouping: [],
+    columnVisibility: {},
+    columnOrder: [],
+    columnSizing: {},
+    frozenColumns: 0,
+    aggregateModes: {},
+    board: { order: [] },
+    calendar: { mode: "month" },
+    gallery: {},
+    timeline: { scale: "week" },
+})
+
+/** Fills settings a view was saved without, e.g. ones added after it was created, with their defaults. */
+export const withViewDefaults = <T extends Pick<SavedView, "type">>(view: T): SavedView & T => ({
+    ...createView([], view.type),
+    ...view,
+})
+
+export const duplicateView = (views: SavedView[], view: SavedView): SavedView => ({
+    ...structuredClone(view),
+    id: crypto.randomUUID(),
+    name: uniqueViewName(views, `${view.name} (copy)`),
+})
+
+const renameKey = <T>(record: Record<string, T>, oldKey: string, newKey: string): Record<string, T> => {
+    if (!(oldKey in record)) return record
+    const { [oldKey]: value, ...rest } = record
+    return { ...rest, [newKey]: value }
+}
+
+const renameOptionalKey = (key: string | undefined, oldKey: string, newKey: string) => (key === oldKey ? newKey : key)
+
+const omitOptionalKey = (key: string | undefined, removed: string) => (key === removed ? undefined : key)
+
+/** Points a view's per-column state at `newKey` after a column rename. */
+export const renameViewColumn = (view: SavedView, oldKey: string, newKey: string): SavedView => ({
+    ...view,
+    sorting: view.sorting.map((s) => (s.id === oldKey ? { ...s, id: newKey } : s)),
+    filter: renameFilterColumn(view.filter, oldKey, newKey),
+    grouping: view.grouping.map((r) => (r.key === oldKey ? { ...r, key: newKey } : r)),
+    columnVisibility: renameKey(view.columnVisibility, oldKey, newKey),
+    columnOrder: view.columnOrder.map((id) => (id === oldKey ? newKey : id)),
+    columnSizing: renameKey(view.columnSizing, oldKey, newKey),
+    aggregateModes: renameKey(view.aggregateModes, oldKey, newKey),
+    board: { ...view.board, groupKey: renameOptionalKey(view.board.groupKey, oldKey, newKey) },
+    calendar: { ...view.calendar, dateKey: renameOptionalKey(view.calendar.dateKey, oldKey, newKey) },
+    gallery: {
+        ...view.gallery,
+        titleKey: renameOptionalKey(view.gallery.titleKey, oldKey, newKey),
+        coverKey: renameOptionalKey(view.gallery.coverKey, oldKey, newKey),
+        fields: view.gallery.fields?.map((key) => (key === oldKey ? newKey : key)),
+    },
+    timeline: {
+        ...view.timeline,
+        startKey: renameOptionalKey(view.timeline.startKey, oldKey, newKey),
+        endKey: renameOptionalKey(view.timeline.endKey, oldKey, newKey),
+        groupKey: renameOptionalKey(view.timeline.groupKey, oldKey, newKey),
+    },
+})
+
+const omitKey = <T>(record: Record<string, T>, key: string): Record<string, T> => {
+    if (!(key in record)) return record
+    const { [key]: _, ...rest } = record
+    return rest
+}
+
+/** Forgets a view's per-column state for a column that has been deleted for good. */
+export const removeViewColumn = (view: SavedView, key: string): SavedView => ({
+    ...view,
+    sorting: view.sorting.filter((s) => s.id !== key),
+    filter: removeFilterColumn(view.filter, key),
+    grouping: view.grouping.filter((r) => r.key !== key),
+    columnVisibility: omitKey(view.columnVisibility, key),
+    columnOrder: view.columnOrder.filter((id) => id !== key),
+    columnSizing: omitKey(view.columnSizing, key),
+    aggregateModes: omitKey(view.aggregateModes, key),
+    board: { ...view.board, groupKey: omitOptionalKey(view.board.groupKey, key) },
+    calendar: { ...view.calendar, dateKey: omitOptionalKey(view.calendar.dateKey, key) },
+    gallery: {
+        ...view.gallery,
+        titleKey: omitOptionalKey(view.gallery.titleKey, key),
+        coverKey: omitOptionalKey(view.gallery.coverKey, key),
+        fields: view.gallery.fields?.filter((k) => k !== key),
+    },
+    timeline: {
+        ...view.timeline,
+        startKey: omitOptionalKey(view.timeline.startKey, key),
+        endKey: omitOptionalKey(view.timeline.endKey, key),
+        groupKey: omitOptionalKey(view.timeline.groupKey, key),
+    },
+})
+
+/** Sorts items by their id's position in a manual order, keeping unlisted items in their original order. */
+export const applyManualOrder = <T>(items: T[], order: string[], getId: (item: T) => string): T[] => {
+    const position = new Map(order.map((id, i) => [id, i]))
+    return items
+        .map((item, index) => ({ item, rank: position.get(getId(item)) ?? order.length + index }))
+        .sort((a, b) => a.rank - b.rank)
+        .map(({ item }) => item)
+}
+
+/**
+ * Returns a new manual order with `id` moved directly before `beforeId`, or to
+ * the end when `beforeId` is null. `ids` is the full current order of every row.
+ */
+export const moveInOrder = (ids: string[], id: string, beforeId: string | null): string[] => {
+    const rest = ids.filter((i) => i !== id)
+    const index = beforeId === null ? -1 : rest.indexOf(beforeId)
+    if (index === -1) return [...rest, id]
+    return [...rest.slice(0, index), id, ...rest.slice(index)]
+}
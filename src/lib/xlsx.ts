@@ -0,0 +1,164 @@
+import type { Cell, CellValue, Worksheet } from "exceljs"
+import { format } from "date-fns"
+import type { Row } from "@/components/columns"
+import { type ColumnConfig, parseDateValue } from "@/lib/column-types"
+import { formatCellText } from "@/lib/clipboard"
+import type { ExportInput } from "@/lib/export"
+
+// ExcelJS is large, so it's only loaded once a workbook is read or written.
+const loadExcel = async () => (await import("exceljs")).default
+
+const NUMBER_FORMATS: Partial<Record<ColumnConfig["type"], string>> = {
+    currency: '"$"#,##0.00',
+    percent: "0.00%",
+    date: "mmm d, yyyy",
+}
+
+/** Hidden sheet holding the option lists select columns validate against. */
+const OPTIONS_SHEET = "Options"
+
+const ISO_DATE_TIME = /^\d{4}-\d{2}-\d{2}T/
+
+// Excel dates have no time zone, so the local date and time are written as if they were UTC.
+const toExcelDate = (date: Date): Date =>
+    new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate(), date.getHours(), date.getMinutes()))
+
+const fromExcelDate = (date: Date): Date =>
+    new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), date.getUTCHours(), date.getUTCMinutes())
+
+const toNumber = (value: unknown): number | null => {
+    if (value == null || value === "") return null
+    const num = Number(value)
+    return isNaN(num) ? null : num
+}
+
+// Typed columns write native cells; anything else falls back to the text the grid shows.
+const toExcelValue = (row: Row, column: ColumnConfig, { tables }: ExportInput): CellValue => {
+    const value = row[column.key]
+    switch (column.type) {
+        case "number":
+        case "currency":
+            return toNumber(value)
+        case "percent": {
+            const num = toNumber(value)
+            return num === null ? null : num / 100
+        }
+        case "date": {
+            const date = parseDateValue(value)
+            return date ? toExcelDate(date) : null
+        }
+        case "checkbox":
+            return Boolean(value)
+        case "formula":
+        case "rollup":
+        case "lookup":
+            if (typeof value === "number" || typeof value === "boolean") return value
+            if (typeof value === "string" && ISO_DATE_TIME.test(value)) {
+                const date = parseDateValue(value)
+                if (date) return toExcelDate(date)
+            }
+            break
+    }
+    const text = formatCellText(value, column, tables)
+    return text === "" ? null : text
+}
+
+// Lists live on a sheet rather than inline, which caps at 255 characters and can't hold commas.
+const addOptionList = (options: Worksheet, column: ColumnConfig, index: number): string | null => {
+    const labels = column.options?.map((o) => o.label) ?? []
+    if (labels.length === 0) return null
+    const letter = options.getColumn(index + 1).letter
+    labels.forEach((label, i) => (options.getCell(`${letter}${i + 1}`).value = label))
+    return `${OPTIONS_SHEET}!$${letter}$1:$${letter}$${labels.length}`
+}
+
+/**
+ * Writes the rows to an Excel workbook with numbers, dates and checkboxes as native cells,
+ * select columns as dropdowns and the header row frozen. Value mode doesn't apply here.
+ */
+export const exportXlsx = async (input: ExportInput): Promise<ArrayBuffer> => {
+    const { name, columns, rows } = input
+    const Excel = await loadExcel()
+    const workbook = new Excel.Workbook()
+    // Sheet names are capped at 31 characters and can't hold []:*?/\
+    const sheet = workbook.addWorksheet(name.replace(/[[\]:*?/\\]/g, " ").slice(0, 31) || "Table", {
+        views: [{ state: "frozen", ySplit: 1 }],
+    })
+    const options = workbook.addWorksheet(OPTIONS_SHEET, { state: "veryHidden" })
+
+    sheet.columns = columns.map((column) => ({
+        header: column.key,
+        key: column.key,
+        width: Math.max(12, column.key.length + 4),
+        style: NUMBER_FORMATS[column.type] ? { numFmt: NUMBER_FORMATS[column.type] } : undefined,
+    }))
+    sheet.getRow(1).font = { bold: true }
+
+    rows.forEach((row) => sheet.addRow(columns.map((column) => toExcelValue(row, column, input))))
+
+    columns.forEach((column, index) => {
+        if (column.type !== "select") return
+        const list = addOptionList(options, column, index)
+        if (!list) return
+        sheet.getColumn(index + 1).eachCell({ includeEmpty: true }, (cell, rowNumber) => {
+            if (rowNumber === 1) return
+            cell.dataValidation = { type: "list", allowBlank: true, formulae: [list] }
+        })
+    })
+
+    return (await workbook.xlsx.writeBuffer()) as ArrayBuffer
+}
+
+export interface WorkbookSheet {
+    name: string
+    /** Cell text, in the form CSV import reads: ISO dates, TRUE/FALSE, "$" and "%" kept from the number format. */
+    rows: string[][]
+}
+
+const formatNumber = (value: number, numFmt: string | undefined): string => {
+    if (numFmt?.includes("%")) return `${Number((value * 100).toPrecision(12))}%`
+    if (numFmt?.includes("$")) return `${value < 0 ? "-" : ""}$${Math.abs(value)}`
+    return String(value)
+}
+
+const toCellText = (value: CellValue, numFmt: string | undefined): string => {
+    if (value == null) return ""
+    if (value instanceof Date) {
+        const date = fromExcelDate(value)
+        return format(date, date.getHours() || date.getMinutes() ? "yyyy-MM-dd'T'HH:mm" : "yyyy-MM-dd")
+    }
+    if (typeof value === "number") return formatNumber(value, numFmt)
+    if (typeof value === "boolean") return value ? "TRUE" : "FALSE"
+    if (typeof value === "string") return value
+    if ("richText" in value) return value.richText.map((r) => r.text).join("")
+    if ("hyperlink" in value) return typeof value.text === "string" ? value.text : value.hyperlink
+    if ("result" in value) return toCellText(value.result ?? null, numFmt)
+    // Errors like #N/A import as empty cells.
+    return ""
+}
+
+const readSheet = (sheet: Worksheet): string[][] => {
+    const rows: string[][] = []
+    sheet.eachRow({ includeEmpty: true }, (row) => {
+        const cells: string[] = []
+        for (let c = 1; c <= sheet.columnCount; c++) {
+            const cell: Cell = row.getCell(c)
+            cells.push(toCellText(cell.value, cell.numFmt))
+        }
+        rows.push(cells)
+    })
+    // Formatted but empty rows at the bottom aren't records.
+    while (rows.length > 0 && rows[rows.length - 1].every((c) => c === "")) rows.pop()
+    return rows
+}
+
+/** Reads every visible sheet of an .xlsx file. */
+export const readWorkbook = async (data: ArrayBuffer): Promise<WorkbookSheet[]> => {
+    const Excel = await loadExcel()
+    const workbook = new Excel.Workbook()
+    // The types ask for a Node Buffer, but any ArrayBuffer loads in the browser.
+    await workbook.xlsx.load(data as unknown as Parameters<typeof workbook.xlsx.load>[0])
+    return workbook.worksheets
+        .filter((sheet) => sheet.state === "visible")
+        .map((sheet) => ({ name: sheet.name, rows: readSheet(sheet) }))
+}